@@ -1,4 +1,6 @@
-import { assert, vec3 } from './utils';
+import { assert, vec3, vec3_add, convertColor } from './utils';
+import { MAX_LIGHT_LEVEL } from './light';
+import { FluidBlocks, MAX_FLUID_LEVEL } from './fluid';
 // this file contains block definitions
 export enum Face {
   LEFT = 0,
@@ -32,49 +34,468 @@ export function getNormal(face: Face) {
   }
 }
 
-export type BlockTextures = [
-  left: HTMLImageElement,
-  right: HTMLImageElement,
-  up: HTMLImageElement,
-  down: HTMLImageElement,
-  front: HTMLImageElement,
-  back: HTMLImageElement
-];
+// the block at coords and the six blocks touching its faces
+export function blockAndNeighbors(coords: vec3): vec3[] {
+  return [coords, ...[Face.LEFT, Face.RIGHT, Face.UP, Face.DOWN, Face.FRONT, Face.BACK].map(face => vec3_add(coords, getNormal(face)))];
+}
+
+// a texture for one face of a block
+export type FaceTexture = {
+  img: HTMLImageElement,
+  // rotates the texture by this many degrees (applied after flipping)
+  rotation?: 0 | 90 | 180 | 270,
+  // mirror the texture horizontally
+  flipU?: boolean,
+  // mirror the texture vertically
+  flipV?: boolean,
+}
+
+// textures can be given for all faces at once, as top/bottom/sides, or for each face separately
+export type BlockTextures =
+  | { all: FaceTexture }
+  | { top: FaceTexture, bottom: FaceTexture, sides: FaceTexture }
+  | {
+    left: FaceTexture,
+    right: FaceTexture,
+    up: FaceTexture,
+    down: FaceTexture,
+    front: FaceTexture,
+    back: FaceTexture,
+  };
+
+// expand the textures of a block into one texture per face, indexed by Face
+export function getFaceTextures(textures: BlockTextures): FaceTexture[] {
+  if ("all" in textures) {
+    return [textures.all, textures.all, textures.all, textures.all, textures.all, textures.all];
+  } else if ("sides" in textures) {
+    return [textures.sides, textures.sides, textures.top, textures.bottom, textures.sides, textures.sides];
+  } else {
+    return [textures.left, textures.right, textures.up, textures.down, textures.front, textures.back];
+  }
+}
+
+// the shadow casting light given off by each visible face of a block
+export type BlockLight = {
+  // each component from 0 to 1
+  color: vec3,
+  // brightness of the light right next to the face
+  intensity: number,
+  // distance in blocks at which the light has faded out completely
+  range: number,
+}
+
+// what "light": true in the manifest means
+export const DEFAULT_BLOCK_LIGHT: BlockLight = { color: [1, 1, 1], intensity: 7, range: 10 };
+
+// shadow maps are only drawn with the chunks around the light's chunk, so lights can't reach any farther than a chunk
+export const MAX_BLOCK_LIGHT_RANGE = 16;
+
+// which fluid a block is, and how full (see fluid.ts)
+export type BlockFluid = {
+  // name of the fluid's source block
+  name: string,
+  // from 1 to MAX_FLUID_LEVEL, which is the source
+  level: number,
+}
 
 export type BlockDef = {
   // name of block
   name: string,
   // if the block is solid to pointer
   pointable: boolean,
-  // if the block emits light
-  light: boolean,
+  // the light the block emits, undefined if it doesn't
+  light?: BlockLight,
   // if the block should be treated with transparency
   // light implies this. Otherwise only the block face will be lit up
   transparent: boolean
+  // how much block light the block gives off, from 0 (none) to MAX_LIGHT_LEVEL (see light.ts)
+  lightLevel: number,
+  // undefined if the block isn't a fluid
+  fluid?: BlockFluid,
+  // if the block falls when there's nothing solid under it
+  gravity: boolean,
   // if undefined the block is invisible
   textures?: BlockTextures
 }
 
+// where to find the texture of a block face in the texture atlas
+export type FaceLayer = {
+  layer: number,
+  rotation: 0 | 90 | 180 | 270,
+  flipU: boolean,
+  flipV: boolean,
+}
+
+// the parts of a BlockDef that meshing needs.
+// Unlike a BlockDef, this doesn't contain any images, so it can be sent to a worker
+export type BlockMeshInfo = {
+  // false if the block is invisible (has no textures)
+  visible: boolean,
+  transparent: boolean,
+  // true if the block has a BlockLight
+  light: boolean,
+  lightLevel: number,
+  fluid?: BlockFluid,
+  // indexed by Face, empty if the block is invisible
+  faceLayers: FaceLayer[],
+}
+
+// the names of the faces in the order of the Face enum
+const FACE_NAMES = ["left", "right", "up", "down", "front", "back"] as const;
+
+// the sets of keys that are allowed in "textures"
+const TEXTURE_LAYOUTS: readonly (readonly string[])[] = [
+  ["all"],
+  ["top", "bottom", "sides"],
+  FACE_NAMES,
+];
+
+const ROTATIONS = [0, 90, 180, 270] as const;
+
+// The JSON manifest that block definitions are loaded from.
+// Texture paths are relative to the manifest's url.
+// {
+//   "tileSize": 16,
+//   "blocks": [
+//     { "name": "air", "pointable": false, "light": false, "transparent": true },
+//     { "name": "lamp", "pointable": true, "light": true, "transparent": false, "lightLevel": 15, "textures": { "all": "lamp/up.png" } },
+//     {
+//       "name": "crystal", "pointable": true, "transparent": false, "lightLevel": 10, "textures": { "all": "crystal/all.png" },
+//       "light": { "color": "#4060ff", "intensity": 5, "range": 8 }
+//     },
+//     { "name": "stone", "pointable": true, "light": false, "transparent": false, "textures": { "all": "stone/up.png" } },
+//     { "name": "water", "pointable": true, "light": false, "transparent": true, "fluid": true, "textures": { "all": "water/all.png" } },
+//     { "name": "sand", "pointable": true, "light": false, "transparent": false, "gravity": true, "textures": { "all": "sand/all.png" } },
+//     {
+//       "name": "grass", "pointable": true, "light": false, "transparent": false,
+//       "textures": { "top": "grass/up.png", "bottom": "grass/down.png", "sides": { "path": "grass/left.png", "flipU": true } }
+//     },
+//     {
+//       "name": "log", "pointable": true, "light": false, "transparent": false,
+//       "textures": { "left": "log/side.png", "right": ..., "up": { "path": "log/top.png", "rotation": 90 }, "down": ..., "front": ..., "back": ... }
+//     },
+//   ]
+// }
+export type BlockManifest = {
+  tileSize: number,
+  blocks: BlockManifestEntry[],
+}
+
+// a texture path, optionally with a rotation and flips
+export type FaceTextureManifest = string | {
+  path: string,
+  rotation?: 0 | 90 | 180 | 270,
+  flipU?: boolean,
+  flipV?: boolean,
+}
+
+// a light in the manifest. Missing fields are taken from DEFAULT_BLOCK_LIGHT
+export type BlockLightManifest = {
+  // "#rrggbb"
+  color?: string,
+  intensity?: number,
+  range?: number,
+}
+
+export type BlockManifestEntry = {
+  name: string,
+  pointable: boolean,
+  // true for DEFAULT_BLOCK_LIGHT
+  light: boolean | BlockLightManifest,
+  transparent: boolean,
+  // block light given off, defaults to 0
+  lightLevel?: number,
+  // true if the block is the source of a fluid. Its flowing levels are added as extra blocks named "<name> <level>"
+  // after all the blocks in the manifest, so they don't change the indexes of other blocks
+  fluid?: boolean,
+  // true if the block falls when there's nothing solid under it, defaults to false
+  gravity?: boolean,
+  // keys are one of the layouts in TEXTURE_LAYOUTS
+  textures?: Record<string, FaceTextureManifest>,
+}
+
+function isObject(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
+
+function validateFaceTexture(texture: unknown, where: string) {
+  if (typeof texture === "string") {
+    return;
+  }
+  assert(isObject(texture), `${where} must be a path or an object with a "path"`);
+  assert(typeof texture.path === "string", `${where} must have a string "path"`);
+  assert(
+    texture.rotation === undefined || (ROTATIONS as readonly unknown[]).includes(texture.rotation),
+    `${where}: "rotation" must be one of ${ROTATIONS.join(", ")}, found ${JSON.stringify(texture.rotation)}`
+  );
+  for (const flag of ["flipU", "flipV"]) {
+    assert(texture[flag] === undefined || typeof texture[flag] === "boolean", `${where}: "${flag}" must be a boolean`);
+  }
+  for (const key of Object.keys(texture)) {
+    assert(["path", "rotation", "flipU", "flipV"].includes(key), `${where} has unknown key "${key}"`);
+  }
+}
+
+function validateBlockLight(light: unknown, where: string) {
+  assert(isObject(light), `${where} must be a boolean or an object`);
+  assert(
+    light.color === undefined || (typeof light.color === "string" && /^#[0-9a-fA-F]{6}$/.test(light.color)),
+    `${where}: "color" must be a color like "#ff8000", found ${JSON.stringify(light.color)}`
+  );
+  assert(
+    light.intensity === undefined || (typeof light.intensity === "number" && light.intensity >= 0),
+    `${where}: "intensity" must be a number >= 0, found ${JSON.stringify(light.intensity)}`
+  );
+  assert(
+    light.range === undefined || (typeof light.range === "number" && light.range > 0 && light.range <= MAX_BLOCK_LIGHT_RANGE),
+    `${where}: "range" must be a number from 0 to ${MAX_BLOCK_LIGHT_RANGE}, found ${JSON.stringify(light.range)}`
+  );
+  for (const key of Object.keys(light)) {
+    assert(["color", "intensity", "range"].includes(key), `${where} has unknown key "${key}"`);
+  }
+}
+
+function parseBlockLight(light: boolean | BlockLightManifest): BlockLight | undefined {
+  if (light === false) {
+    return undefined;
+  }
+  if (light === true) {
+    return DEFAULT_BLOCK_LIGHT;
+  }
+  return {
+    color: light.color === undefined ? DEFAULT_BLOCK_LIGHT.color : convertColor(parseInt(light.color.slice(1), 16)),
+    intensity: light.intensity ?? DEFAULT_BLOCK_LIGHT.intensity,
+    range: light.range ?? DEFAULT_BLOCK_LIGHT.range,
+  };
+}
+
+// checks that the parsed json is a valid manifest, throwing an error describing the first problem found
+export function validateBlockManifest(json: unknown): BlockManifest {
+  assert(isObject(json), `block manifest must be an object`);
+  assert(
+    typeof json.tileSize === "number" && Number.isInteger(json.tileSize) && json.tileSize > 0,
+    `block manifest: "tileSize" must be a positive integer, found ${JSON.stringify(json.tileSize)}`
+  );
+  assert(Array.isArray(json.blocks), `block manifest: "blocks" must be an array`);
+
+  const names = new Set<string>();
+  for (let block_index = 0; block_index < json.blocks.length; block_index++) {
+    const block: unknown = json.blocks[block_index];
+    assert(isObject(block), `block manifest: blocks[${block_index}] must be an object`);
+    assert(typeof block.name === "string" && block.name.length > 0, `block manifest: blocks[${block_index}] must have a non-empty string "name"`);
+
+    const where = `block manifest: blocks[${block_index}] ("${block.name}")`;
+    assert(!names.has(block.name), `${where}: there is already a block with this name`);
+    names.add(block.name);
+
+    for (const flag of ["pointable", "transparent"]) {
+      assert(typeof block[flag] === "boolean", `${where}: "${flag}" must be a boolean, found ${JSON.stringify(block[flag])}`);
+    }
+    if (typeof block.light !== "boolean") {
+      validateBlockLight(block.light, `${where}: "light"`);
+    }
+    assert(
+      block.lightLevel === undefined ||
+        (typeof block.lightLevel === "number" && Number.isInteger(block.lightLevel) && block.lightLevel >= 0 && block.lightLevel <= MAX_LIGHT_LEVEL),
+      `${where}: "lightLevel" must be an integer from 0 to ${MAX_LIGHT_LEVEL}, found ${JSON.stringify(block.lightLevel)}`
+    );
+    for (const flag of ["fluid", "gravity"]) {
+      assert(block[flag] === undefined || typeof block[flag] === "boolean", `${where}: "${flag}" must be a boolean, found ${JSON.stringify(block[flag])}`);
+    }
+
+    if (block.textures !== undefined) {
+      const textures = block.textures;
+      assert(isObject(textures), `${where}: "textures" must be an object`);
+      const keys = Object.keys(textures);
+      const layout = TEXTURE_LAYOUTS.find(l => l.length === keys.length && l.every(k => keys.includes(k)));
+      assert(
+        layout !== undefined,
+        `${where}: "textures" has keys ${keys.join(", ")}, expected one of: ${TEXTURE_LAYOUTS.map(l => l.join(", ")).join(" | ")}`
+      );
+      for (const key of keys) {
+        validateFaceTexture(textures[key], `${where}: texture "${key}"`);
+      }
+    }
+  }
+
+  // the flowing levels of fluids mustn't clash with other blocks
+  for (const block of json.blocks as BlockManifestEntry[]) {
+    if (block.fluid) {
+      for (let level = 1; level < MAX_FLUID_LEVEL; level++) {
+        const name = fluidLevelName(block.name, level);
+        assert(!names.has(name), `block manifest: the fluid "${block.name}" needs a block named "${name}", but there already is one`);
+      }
+    }
+  }
+
+  return json as BlockManifest;
+}
+
+// the name of the block for a flowing level of a fluid
+function fluidLevelName(fluid: string, level: number) {
+  return `${fluid} ${level}`;
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`failed to load texture ${url}`));
+    img.src = url;
+  });
+}
+
+// returns a string that is equal for two images if and only if their pixels are equal
+function imagePixelKey(img: HTMLImageElement) {
+  const canvas = document.createElement("canvas");
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(img, 0, 0);
+  return `${img.width}x${img.height}:${ctx.getImageData(0, 0, img.width, img.height).data.join(",")}`;
+}
+
 export class BlockManager {
   readonly defs: BlockDef[];
   readonly tileSize: number;
 
+  // distinct images in the texture atlas, indexed by layer
+  readonly layerImages: HTMLImageElement[];
+  // the texture atlas layer for each face of each block, indexed by [block][face]
+  // empty for blocks without textures
+  readonly faceLayers: FaceLayer[][];
+  // what meshing needs to know about each block
+  readonly meshInfo: BlockMeshInfo[];
+  // the blocks of each fluid
+  readonly fluids: FluidBlocks[];
+
+  // fetch the manifest at the given url, and all the textures it references
+  static async load(manifestUrl: string) {
+    const absoluteManifestUrl = new URL(manifestUrl, document.baseURI);
+
+    const response = await fetch(absoluteManifestUrl.href);
+    assert(response.ok, `failed to fetch block manifest ${absoluteManifestUrl.href}: ${response.status} ${response.statusText}`);
+    const manifest = validateBlockManifest(await response.json());
+
+    // blocks that share a path share the image
+    const images = new Map<string, Promise<HTMLImageElement>>();
+    const loadFaceTexture = async (texture: FaceTextureManifest): Promise<FaceTexture> => {
+      const { path, ...transform } = typeof texture === "string" ? { path: texture } : texture;
+      const url = new URL(path, absoluteManifestUrl).href;
+      if (!images.has(url)) {
+        images.set(url, loadImage(url));
+      }
+      return { img: await images.get(url)!, ...transform };
+    }
+
+    const defs = await Promise.all(manifest.blocks.map(async (block): Promise<BlockDef> => {
+      let textures: BlockTextures | undefined = undefined;
+      if (block.textures !== undefined) {
+        const entries = await Promise.all(
+          Object.entries(block.textures).map(async ([key, texture]) => [key, await loadFaceTexture(texture)])
+        );
+        // validateBlockManifest already checked that the keys form one of the layouts
+        textures = Object.fromEntries(entries) as BlockTextures;
+      }
+      return {
+        name: block.name,
+        pointable: block.pointable,
+        light: parseBlockLight(block.light),
+        transparent: block.transparent,
+        lightLevel: block.lightLevel ?? 0,
+        fluid: block.fluid ? { name: block.name, level: MAX_FLUID_LEVEL } : undefined,
+        gravity: block.gravity ?? false,
+        textures,
+      };
+    }));
+
+    // add the flowing levels of each fluid at the end
+    for (const source of defs.filter(def => def.fluid !== undefined)) {
+      for (let level = MAX_FLUID_LEVEL - 1; level >= 1; level--) {
+        defs.push({ ...source, name: fluidLevelName(source.name, level), fluid: { name: source.name, level } });
+      }
+    }
+
+    return new BlockManager(manifest.tileSize, defs);
+  }
+
   constructor(tileSize: number, defs: BlockDef[]) {
     this.tileSize = tileSize;
     this.defs = defs;
-    // validate tiles
+    this.layerImages = [];
+    this.faceLayers = [];
+
+    // maps pixel contents to layer, so identical images only get one layer
+    const layersByPixels = new Map<string, number>();
+    // avoid reading back the pixels of the same image twice
+    const layersByImage = new Map<HTMLImageElement, number>();
+
     for (let block_index = 0; block_index < this.defs.length; block_index++) {
       const block = this.defs[block_index];
       if (block.textures === undefined) {
+        this.faceLayers.push([]);
         continue;
       }
-      for (let face_index = 0; face_index < block.textures.length; face_index++) {
-        const img = block.textures[face_index];
-        assert(img.height === tileSize, `block #${block_index} face #${face_index} height != ${tileSize}, found ${img.height}`);
-        assert(img.width === tileSize, `block #${block_index} face #${face_index} width != ${tileSize}, found ${img.width}`);
+      const faceTextures = getFaceTextures(block.textures);
+      // validate tiles
+      for (let face_index = 0; face_index < faceTextures.length; face_index++) {
+        const img = faceTextures[face_index].img;
+        assert(img.height === tileSize, `block #${block_index} ("${block.name}") face ${FACE_NAMES[face_index]} height != ${tileSize}, found ${img.height}`);
+        assert(img.width === tileSize, `block #${block_index} ("${block.name}") face ${FACE_NAMES[face_index]} width != ${tileSize}, found ${img.width}`);
       }
+
+      // assign layers
+      this.faceLayers.push(faceTextures.map(texture => {
+        let layer = layersByImage.get(texture.img);
+        if (layer === undefined) {
+          const key = imagePixelKey(texture.img);
+          layer = layersByPixels.get(key);
+          if (layer === undefined) {
+            layer = this.layerImages.length;
+            this.layerImages.push(texture.img);
+            layersByPixels.set(key, layer);
+          }
+          layersByImage.set(texture.img, layer);
+        }
+        return {
+          layer,
+          rotation: texture.rotation ?? 0,
+          flipU: texture.flipU ?? false,
+          flipV: texture.flipV ?? false,
+        };
+      }));
     }
 
+    this.meshInfo = this.defs.map((def, block_index) => ({
+      visible: def.textures !== undefined,
+      transparent: def.transparent,
+      light: def.light !== undefined,
+      lightLevel: def.lightLevel,
+      fluid: def.fluid,
+      faceLayers: this.faceLayers[block_index],
+    }));
+
+    this.fluids = this.defs.filter(def => def.fluid?.level === MAX_FLUID_LEVEL).map(source => {
+      // block 0 is always air
+      const levels = [0];
+      for (let level = 1; level <= MAX_FLUID_LEVEL; level++) {
+        const index = this.defs.findIndex(def => def.fluid?.name === source.name && def.fluid.level === level);
+        assert(index !== -1, `fluid "${source.name}" has no block for level ${level}`);
+        levels.push(index);
+      }
+      return { levels };
+    });
+  }
+
+  // the block definitions without their images, so they can be sent to a worker
+  // and used to construct a BlockManager there (which won't be able to build a texture atlas)
+  getDefsWithoutTextures = (): BlockDef[] => this.defs.map(def => ({ ...def, textures: undefined }));
+
+  // get the index of the block with the given name
+  getIndex = (name: string) => {
+    const index = this.defs.findIndex(def => def.name === name);
+    assert(index !== -1, `no block named "${name}"`);
+    return index;
   }
 
   buildTextureAtlas = (gl: WebGL2RenderingContext) => {
@@ -84,8 +505,11 @@ export class BlockManager {
     gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
     gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
 
+    // we need at least one layer, even if no block has textures
+    const nLayers = Math.max(this.layerImages.length, 1);
+
     // initialize image by loading with transparent black for now
-    const data = new Uint8Array(this.tileSize * this.tileSize * this.defs.length *  6 * 4);
+    const data = new Uint8Array(this.tileSize * this.tileSize * nLayers * 4);
 
     // (required to initialize before doing texSubImage3D)
     gl.texImage3D(
@@ -94,35 +518,28 @@ export class BlockManager {
       gl.RGBA, // internalformat
       this.tileSize, // width
       this.tileSize, // height
-      this.defs.length * 6, // depth (has to be enough to store all faces)
+      nLayers, // depth (one layer per distinct image)
       0, // border
       gl.RGBA, // format
       gl.UNSIGNED_BYTE, // type
       data, // pixels
     );
 
-    for (let block_index = 0; block_index < this.defs.length; block_index++) {
-      const block = this.defs[block_index];
-      // do nothing if transparent block
-      if (block.textures === undefined) {
-        continue;
-      }
-      // write each face
-      for (let face_index = 0; face_index < block.textures.length; face_index++) {
-        gl.texSubImage3D(
-          gl.TEXTURE_2D_ARRAY, // texture kind
-          0, // write at 0 level
-          0, // x offset
-          0, // y offset
-          block_index * 6 + face_index, // z offset
-          this.tileSize, // width
-          this.tileSize, // height
-          1, // depth
-          gl.RGBA, // format
-          gl.UNSIGNED_BYTE, // type
-          block.textures[face_index]
-        );
-      }
+    // write each distinct image
+    for (let layer = 0; layer < this.layerImages.length; layer++) {
+      gl.texSubImage3D(
+        gl.TEXTURE_2D_ARRAY, // texture kind
+        0, // write at 0 level
+        0, // x offset
+        0, // y offset
+        layer, // z offset
+        this.tileSize, // width
+        this.tileSize, // height
+        1, // depth
+        gl.RGBA, // format
+        gl.UNSIGNED_BYTE, // type
+        this.layerImages[layer]
+      );
     }
 
     gl.generateMipmap(gl.TEXTURE_2D_ARRAY);
@@ -130,4 +547,3 @@ export class BlockManager {
     return tex;
   }
 }
-
@@ -43,6 +43,8 @@ export class CameraBasis {
 export class Camera {
   private pos: vec3;
   private dir: vec3;
+  // distance to the far plane. Nothing farther than this gets drawn
+  private far = 100.0;
 
   private readonly canvas: HTMLCanvasElement;
 
@@ -58,10 +60,13 @@ export class Camera {
   getDir = () => vec3_dup(this.dir);
   setDir = (dir: vec3) => this.dir = vec3_dup(dir);
 
+  getFar = () => this.far;
+  setFar = (far: number) => this.far = far;
+
   getMvp = (worldup:vec3) => {
     const fov = RADIANS(90.0);
     const aspect_ratio = this.canvas.width / this.canvas.height;
-    const projection = mat4_perspective(fov, aspect_ratio, 0.1, 100.0);
+    const projection = mat4_perspective(fov, aspect_ratio, 0.1, this.far);
 
     // calculate the view matrix using our camera basis
     const view = mat4_look_at(this.pos, vec3_add(this.pos, this.dir), worldup);
@@ -0,0 +1,209 @@
+import { vec3 } from './utils';
+import { BlockDef, BlockManager, BlockMeshInfo } from './block';
+import { WorldGenerator, WorldGeneratorConfig } from './world-generator';
+import { ChunkMeshData, ChunkNeighbors, ChunkNeighborLight, meshChunk } from './mesh';
+import { lightChunkAlone } from './light';
+
+// the blocks of a chunk, and their light as if the chunks around them weren't loaded (see lightChunkAlone)
+export type LitBlocks = { blocks: Uint16Array, light: Uint8Array };
+
+// runs the expensive parts of loading a chunk: generating and lighting its blocks, and meshing them
+export interface ChunkJobRunner {
+  generate: (worldChunkCoords: vec3) => Promise<LitBlocks>;
+  // lights blocks that came from somewhere other than generate, like the chunk store
+  light: (blocks: Uint16Array) => Promise<Uint8Array>;
+  // greedy selects greedy meshing (see mergeFaces) over one quad per face
+  mesh: (worldChunkCoords: vec3, blocks: Uint16Array, neighbors: ChunkNeighbors, light: Uint8Array, neighborLight: ChunkNeighborLight, greedy: boolean) => Promise<ChunkMeshData>;
+  // stop running jobs. Jobs that haven't finished will never resolve
+  terminate: () => void;
+}
+
+// messages between ChunkWorkerPool and chunk-worker.ts
+
+// sent once to each worker before any jobs
+export type ChunkWorkerInit = {
+  kind: "init",
+  tileSize: number,
+  defs: BlockDef[],
+  meshInfo: BlockMeshInfo[],
+  generator: WorldGeneratorConfig,
+}
+
+export type ChunkJobRequest =
+  | { kind: "generate", id: number, worldChunkCoords: vec3 }
+  | { kind: "light", id: number, blocks: Uint16Array }
+  | {
+    kind: "mesh", id: number, worldChunkCoords: vec3, blocks: Uint16Array, neighbors: ChunkNeighbors,
+    light: Uint8Array, neighborLight: ChunkNeighborLight, greedy: boolean,
+  };
+
+export type ChunkJobResponse =
+  | { kind: "generate", id: number, blocks: Uint16Array, light: Uint8Array }
+  | { kind: "light", id: number, light: Uint8Array }
+  | { kind: "mesh", id: number, mesh: ChunkMeshData }
+  | { kind: "error", id: number, message: string };
+
+// runs jobs on the calling thread. Used when workers aren't available (for example, in tests)
+export class InlineChunkJobRunner implements ChunkJobRunner {
+  private readonly generator: WorldGenerator;
+  private readonly meshInfo: BlockMeshInfo[];
+
+  constructor(generator: WorldGenerator, meshInfo: BlockMeshInfo[]) {
+    this.generator = generator;
+    this.meshInfo = meshInfo;
+  }
+
+  generate = async (worldChunkCoords: vec3) => {
+    const blocks = this.generator.generate(worldChunkCoords);
+    return { blocks, light: lightChunkAlone(this.meshInfo, blocks) };
+  }
+
+  light = async (blocks: Uint16Array) => lightChunkAlone(this.meshInfo, blocks);
+
+  mesh = async (worldChunkCoords: vec3, blocks: Uint16Array, neighbors: ChunkNeighbors, light: Uint8Array, neighborLight: ChunkNeighborLight, greedy: boolean) =>
+    meshChunk(worldChunkCoords, this.meshInfo, blocks, neighbors, light, neighborLight, greedy);
+
+  terminate = () => { }
+}
+
+// a worker that crashes more often than this is given up on, and gets no more jobs
+const MAX_WORKER_RESTARTS = 3;
+
+type PendingJob = {
+  worker: number,
+  resolve: (response: ChunkJobResponse) => void,
+  reject: (error: Error) => void,
+}
+
+// runs jobs on a pool of web workers. Results come back as transferred buffers, so they don't get copied
+export class ChunkWorkerPool implements ChunkJobRunner {
+  private readonly init: ChunkWorkerInit;
+  // undefined once a worker has crashed too often
+  private readonly workers: (Worker | undefined)[];
+  // number of jobs sent to each worker that haven't come back yet
+  private readonly inFlight: number[];
+  // how many times each worker has been replaced after crashing
+  private readonly restarts: number[];
+  private readonly pending = new Map<number, PendingJob>();
+  private nextId = 0;
+
+  constructor(nWorkers: number, blockManager: BlockManager, generator: WorldGeneratorConfig) {
+    this.init = {
+      kind: "init",
+      tileSize: blockManager.tileSize,
+      defs: blockManager.getDefsWithoutTextures(),
+      meshInfo: blockManager.meshInfo,
+      generator,
+    };
+
+    this.workers = [];
+    this.inFlight = [];
+    this.restarts = [];
+    for (let i = 0; i < nWorkers; i++) {
+      this.workers.push(this.spawnWorker(i));
+      this.inFlight.push(0);
+      this.restarts.push(0);
+    }
+  }
+
+  private spawnWorker = (i: number) => {
+    const worker = new Worker(new URL('./chunk-worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<ChunkJobResponse>) => this.onResponse(e.data);
+    worker.onerror = e => this.onWorkerError(i, e.message);
+    worker.postMessage(this.init);
+    return worker;
+  }
+
+  // A worker that crashed or failed to load never answers its jobs, so fail them (the world retries failed jobs)
+  // and replace the worker, or stop using it if it keeps crashing
+  private onWorkerError = (i: number, message: string) => {
+    console.log("chunk worker error:", message);
+    for (const [id, job] of this.pending) {
+      if (job.worker === i) {
+        this.pending.delete(id);
+        job.reject(new Error(`chunk worker crashed: ${message}`));
+      }
+    }
+    this.inFlight[i] = 0;
+    this.workers[i]?.terminate();
+    if (this.restarts[i] < MAX_WORKER_RESTARTS) {
+      this.restarts[i]++;
+      this.workers[i] = this.spawnWorker(i);
+    } else {
+      this.workers[i] = undefined;
+    }
+  }
+
+  private onResponse = (response: ChunkJobResponse) => {
+    const job = this.pending.get(response.id);
+    if (job === undefined) {
+      return;
+    }
+    this.pending.delete(response.id);
+    this.inFlight[job.worker]--;
+    if (response.kind === "error") {
+      job.reject(new Error(response.message));
+    } else {
+      job.resolve(response);
+    }
+  }
+
+  // send the job to the least busy worker
+  private dispatch = (request: ChunkJobRequest) => new Promise<ChunkJobResponse>((resolve, reject) => {
+    let worker = -1;
+    for (let i = 0; i < this.workers.length; i++) {
+      if (this.workers[i] !== undefined && (worker === -1 || this.inFlight[i] < this.inFlight[worker])) {
+        worker = i;
+      }
+    }
+    if (worker === -1) {
+      reject(new Error("all chunk workers have crashed"));
+      return;
+    }
+    this.pending.set(request.id, { worker, resolve, reject });
+    this.inFlight[worker]++;
+    // the blocks we send are copied, since the world keeps using them
+    this.workers[worker]!.postMessage(request);
+  });
+
+  generate = async (worldChunkCoords: vec3) => {
+    const response = await this.dispatch({ kind: "generate", id: this.nextId++, worldChunkCoords });
+    if (response.kind !== "generate") {
+      throw new Error(`expected generate response, got ${response.kind}`);
+    }
+    return { blocks: response.blocks, light: response.light };
+  }
+
+  light = async (blocks: Uint16Array) => {
+    const response = await this.dispatch({ kind: "light", id: this.nextId++, blocks });
+    if (response.kind !== "light") {
+      throw new Error(`expected light response, got ${response.kind}`);
+    }
+    return response.light;
+  }
+
+  mesh = async (worldChunkCoords: vec3, blocks: Uint16Array, neighbors: ChunkNeighbors, light: Uint8Array, neighborLight: ChunkNeighborLight, greedy: boolean) => {
+    const response = await this.dispatch({ kind: "mesh", id: this.nextId++, worldChunkCoords, blocks, neighbors, light, neighborLight, greedy });
+    if (response.kind !== "mesh") {
+      throw new Error(`expected mesh response, got ${response.kind}`);
+    }
+    return response.mesh;
+  }
+
+  terminate = () => {
+    for (const worker of this.workers) {
+      worker?.terminate();
+    }
+    this.pending.clear();
+  }
+}
+
+// use workers if we have them, otherwise do the work on this thread
+export function createChunkJobRunner(generator: WorldGenerator, blockManager: BlockManager): ChunkJobRunner {
+  if (typeof Worker === "undefined") {
+    return new InlineChunkJobRunner(generator, blockManager.meshInfo);
+  }
+  // leave a core for the main thread
+  const nWorkers = Math.max(1, Math.min(4, (navigator.hardwareConcurrency ?? 2) - 1));
+  return new ChunkWorkerPool(nWorkers, blockManager, generator.config);
+}
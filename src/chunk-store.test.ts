@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { vec3 } from './utils';
+import { CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE, chunkDataIndex } from './chunk';
+import { MemoryChunkStore } from './chunk-store';
+
+const CHUNK_VOLUME = CHUNK_X_SIZE * CHUNK_Y_SIZE * CHUNK_Z_SIZE;
+const STONE = 3;
+const GLASS = 4;
+
+const COORD: vec3 = [1, -2, 3];
+
+describe("MemoryChunkStore", () => {
+  it("gives back the edits of a chunk after it's unloaded and reloaded", async () => {
+    const store = new MemoryChunkStore();
+    expect(await store.load(COORD)).toBeUndefined();
+
+    // edit the chunk and save it when it's unloaded
+    const blocks = new Uint16Array(CHUNK_VOLUME);
+    blocks[chunkDataIndex(1, 2, 3)] = STONE;
+    await store.save(COORD, blocks);
+    // the unloaded chunk's array may be reused, which mustn't change what was saved
+    blocks.fill(GLASS);
+
+    // reload it, edit it again, and unload it again
+    const reloaded = (await store.load(COORD))!;
+    expect(reloaded[chunkDataIndex(1, 2, 3)]).toBe(STONE);
+    expect(reloaded.filter(bi => bi !== 0)).toHaveLength(1);
+    reloaded[chunkDataIndex(4, 5, 6)] = GLASS;
+    await store.save(COORD, reloaded);
+
+    const again = (await store.load(COORD))!;
+    expect(again[chunkDataIndex(1, 2, 3)]).toBe(STONE);
+    expect(again[chunkDataIndex(4, 5, 6)]).toBe(GLASS);
+
+    // other chunks were never saved
+    expect(await store.load([1, -2, 4])).toBeUndefined();
+  });
+
+  it("lists and clears every saved chunk", async () => {
+    const store = new MemoryChunkStore();
+    await store.save(COORD, new Uint16Array(CHUNK_VOLUME).fill(STONE));
+    await store.save([0, 0, 0], new Uint16Array(CHUNK_VOLUME).fill(GLASS));
+
+    const all = await store.loadAll();
+    expect(all.map(([coord]) => coord)).toEqual([COORD, [0, 0, 0]]);
+    expect(all[1][1].every(bi => bi === GLASS)).toBe(true);
+
+    await store.clear();
+    expect(await store.loadAll()).toEqual([]);
+    expect(await store.load(COORD)).toBeUndefined();
+  });
+});
@@ -0,0 +1,112 @@
+import { vec3 } from './utils';
+
+// a place to keep the blocks of chunks that have been edited by the player,
+// so that they survive being unloaded
+export interface ChunkStore {
+  // resolves to the saved blocks of the chunk, or undefined if it was never saved
+  load: (coord: vec3) => Promise<Uint16Array | undefined>;
+  save: (coord: vec3, blocks: Uint16Array) => Promise<void>;
+  // resolves to every saved chunk
+  loadAll: () => Promise<[vec3, Uint16Array][]>;
+  // deletes every saved chunk
+  clear: () => Promise<void>;
+}
+
+// keeps saved chunks in a map. Nothing survives a page reload,
+// but it doesn't depend on any browser apis, so it's handy for tests
+export class MemoryChunkStore implements ChunkStore {
+  private chunks = new Map<string, Uint16Array>();
+
+  load = async (coord: vec3) => {
+    const blocks = this.chunks.get(JSON.stringify(coord));
+    // hand out a copy so the caller can't modify what we have saved
+    return blocks === undefined ? undefined : blocks.slice();
+  }
+
+  save = async (coord: vec3, blocks: Uint16Array) => {
+    this.chunks.set(JSON.stringify(coord), blocks.slice());
+  }
+
+  loadAll = async () =>
+    Array.from(this.chunks, ([coord, blocks]) => [JSON.parse(coord), blocks.slice()] as [vec3, Uint16Array]);
+
+  clear = async () => {
+    this.chunks.clear();
+  }
+}
+
+const CHUNK_OBJECT_STORE = "chunks";
+
+// keeps saved chunks in the browser's IndexedDB, one database per world
+export class IndexedDBChunkStore implements ChunkStore {
+  private readonly db: Promise<IDBDatabase>;
+
+  constructor(dbName: string) {
+    this.db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(CHUNK_OBJECT_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // IndexedDB runs transactions on the same object store in the order they were created,
+  // so a load issued after a save will always see the saved data
+  load = async (coord: vec3) => {
+    const db = await this.db;
+    return new Promise<Uint16Array | undefined>((resolve, reject) => {
+      const request = db
+        .transaction(CHUNK_OBJECT_STORE, "readonly")
+        .objectStore(CHUNK_OBJECT_STORE)
+        .get(JSON.stringify(coord));
+      request.onsuccess = () => resolve(request.result === undefined ? undefined : new Uint16Array(request.result));
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  save = async (coord: vec3, blocks: Uint16Array) => {
+    const db = await this.db;
+    return new Promise<void>((resolve, reject) => {
+      const request = db
+        .transaction(CHUNK_OBJECT_STORE, "readwrite")
+        .objectStore(CHUNK_OBJECT_STORE)
+        // store a copy of the underlying buffer, since the chunk may keep being edited
+        .put(blocks.slice().buffer, JSON.stringify(coord));
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  loadAll = async () => {
+    const db = await this.db;
+    return new Promise<[vec3, Uint16Array][]>((resolve, reject) => {
+      const chunks: [vec3, Uint16Array][] = [];
+      const request = db
+        .transaction(CHUNK_OBJECT_STORE, "readonly")
+        .objectStore(CHUNK_OBJECT_STORE)
+        .openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor === null) {
+          resolve(chunks);
+        } else {
+          chunks.push([JSON.parse(cursor.key as string), new Uint16Array(cursor.value)]);
+          cursor.continue();
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  clear = async () => {
+    const db = await this.db;
+    return new Promise<void>((resolve, reject) => {
+      const request = db
+        .transaction(CHUNK_OBJECT_STORE, "readwrite")
+        .objectStore(CHUNK_OBJECT_STORE)
+        .clear();
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
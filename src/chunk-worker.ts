@@ -0,0 +1,51 @@
+import { BlockManager, BlockMeshInfo } from './block';
+import { WorldGenerator, createWorldGenerator } from './world-generator';
+import { ChunkJobRequest, ChunkJobResponse, ChunkWorkerInit } from './chunk-jobs';
+import { meshChunk } from './mesh';
+import { lightChunkAlone } from './light';
+
+// entry point of the workers started by ChunkWorkerPool
+
+// the dom typings think self is a window, so describe the parts of the worker scope we use
+const scope = self as unknown as {
+  onmessage: (e: MessageEvent<ChunkWorkerInit | ChunkJobRequest>) => void,
+  postMessage: (message: ChunkJobResponse, transfer: Transferable[]) => void,
+};
+
+let generator: WorldGenerator | undefined;
+let meshInfo: BlockMeshInfo[] | undefined;
+
+scope.onmessage = e => {
+  const msg = e.data;
+  if (msg.kind === "init") {
+    generator = createWorldGenerator(msg.generator, new BlockManager(msg.tileSize, msg.defs));
+    meshInfo = msg.meshInfo;
+    return;
+  }
+
+  try {
+    if (generator === undefined || meshInfo === undefined) {
+      throw new Error("chunk worker received a job before init");
+    }
+    switch (msg.kind) {
+      case "generate": {
+        const blocks = generator.generate(msg.worldChunkCoords);
+        const light = lightChunkAlone(meshInfo, blocks);
+        scope.postMessage({ kind: "generate", id: msg.id, blocks, light }, [blocks.buffer, light.buffer]);
+        break;
+      }
+      case "light": {
+        const light = lightChunkAlone(meshInfo, msg.blocks);
+        scope.postMessage({ kind: "light", id: msg.id, light }, [light.buffer]);
+        break;
+      }
+      case "mesh": {
+        const mesh = meshChunk(msg.worldChunkCoords, meshInfo, msg.blocks, msg.neighbors, msg.light, msg.neighborLight, msg.greedy);
+        scope.postMessage({ kind: "mesh", id: msg.id, mesh }, [mesh.solid.buffer, mesh.transparent.buffer]);
+        break;
+      }
+    }
+  } catch (e) {
+    scope.postMessage({ kind: "error", id: msg.id, message: String(e) }, []);
+  }
+}
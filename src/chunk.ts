@@ -0,0 +1,18 @@
+import { vec3, vec3_add, aabb } from './utils';
+
+// this file contains the layout of chunk block data, shared by everything that reads or writes chunks
+
+export const CHUNK_X_SIZE = 16;
+export const CHUNK_Y_SIZE = 16;
+export const CHUNK_Z_SIZE = 16;
+
+// get chunk data index
+export function chunkDataIndex(x: number, y: number, z: number) {
+  return Math.floor(x) * CHUNK_Y_SIZE * CHUNK_Z_SIZE + Math.floor(y) * CHUNK_Z_SIZE + Math.floor(z);
+}
+
+// the box of world space that the chunk at the given chunk coordinates covers
+export function chunkAabb(worldChunkCoords: vec3): aabb {
+  const min: vec3 = [worldChunkCoords[0] * CHUNK_X_SIZE, worldChunkCoords[1] * CHUNK_Y_SIZE, worldChunkCoords[2] * CHUNK_Z_SIZE];
+  return { min, max: vec3_add(min, [CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE]) };
+}
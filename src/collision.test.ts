@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { aabb, vec3 } from './utils';
+import { FixedBlockWorld, moveBox } from './collision';
+
+const SIZE: vec3 = [8, 8, 8];
+const STONE = 1;
+
+// a world with a stone floor at y = 7, and stone in the given blocks.
+// remember that y points down, so things stand on the floor with their bottom at y = 7
+function worldWith(stone: vec3[]) {
+  const blocks = new Uint16Array(SIZE[0] * SIZE[1] * SIZE[2]);
+  const setStone = ([x, y, z]: vec3) => blocks[x * SIZE[1] * SIZE[2] + y * SIZE[2] + z] = STONE;
+  for (let x = 0; x < SIZE[0]; x++) {
+    for (let z = 0; z < SIZE[2]; z++) {
+      setStone([x, 7, z]);
+    }
+  }
+  stone.forEach(setStone);
+  return new FixedBlockWorld(SIZE, blocks);
+}
+
+// a player sized box standing on the floor, with its front (+x) side at x
+function standingAt(x: number): aabb {
+  return { min: [x - 0.6, 7 - 1.8, 3.2], max: [x, 7, 3.8] };
+}
+
+const hasNormal = (normals: vec3[], normal: vec3) => normals.some(n => n.every((c, i) => c === normal[i]));
+
+describe("FixedBlockWorld", () => {
+  it("counts coords inside a block as that block", () => {
+    const world = worldWith([[2, 3, 4]]);
+    expect(world.isSolid([2.5, 3.9, 4.1])).toBe(true);
+    expect(world.isSolid([2.5, 2.9, 4.1])).toBe(false);
+  });
+});
+
+describe("moveBox", () => {
+  it("doesn't tunnel through a thin wall when moving fast", () => {
+    const world = worldWith([[4, 6, 3], [4, 5, 3]]);
+    const result = moveBox(world, standingAt(2), [50, 0, 0]);
+    expect(result.moved[0]).toBeCloseTo(2);
+    expect(hasNormal(result.normals, [-1, 0, 0])).toBe(true);
+  });
+
+  it("steps onto a ledge one block high", () => {
+    const world = worldWith([[4, 6, 3]]);
+    const result = moveBox(world, standingAt(3.9), [0.5, 0.1, 0], 1);
+    expect(result.steppedUp).toBe(true);
+    expect(result.moved[0]).toBeCloseTo(0.5);
+    // now standing on top of the ledge
+    expect(result.moved[1]).toBeCloseTo(-1);
+    expect(hasNormal(result.normals, [0, -1, 0])).toBe(true);
+  });
+
+  it("doesn't step onto two blocks", () => {
+    const world = worldWith([[4, 6, 3], [4, 5, 3]]);
+    const result = moveBox(world, standingAt(3.9), [0.5, 0.1, 0], 1);
+    expect(result.steppedUp).toBe(false);
+    expect(result.moved[0]).toBeCloseTo(0.1);
+    expect(result.moved[1]).toBeCloseTo(0);
+    expect(hasNormal(result.normals, [-1, 0, 0])).toBe(true);
+  });
+
+  it("reports the normals of the faces it hit", () => {
+    const world = worldWith([[4, 6, 3], [4, 5, 3]]);
+    // falling into the corner between the floor and the wall
+    const box = standingAt(3.9);
+    const result = moveBox(world, { min: [box.min[0], box.min[1] - 1, box.min[2]], max: [box.max[0], box.max[1] - 1, box.max[2]] }, [1, 2, 0]);
+    expect(result.moved[1]).toBeCloseTo(1);
+    expect(result.normals).toHaveLength(2);
+    expect(hasNormal(result.normals, [0, -1, 0])).toBe(true);
+    expect(hasNormal(result.normals, [-1, 0, 0])).toBe(true);
+
+    // moving through open air hits nothing
+    expect(moveBox(world, standingAt(2), [0, -1, 0]).normals).toHaveLength(0);
+  });
+});
@@ -0,0 +1,198 @@
+import { vec3, aabb, vec3_add, vec3_sub } from './utils';
+
+// this file moves boxes through the block grid without letting them pass through solid blocks.
+// It doesn't touch WebGL, so it can run without a World (see FixedBlockWorld)
+
+// the blocks that boxes collide with. World implements this
+export interface CollisionWorld {
+  // true if the block at the given block coordinates can't be moved through
+  isSolid: (coords: vec3) => boolean;
+  // how much of the block at the given block coordinates is filled with fluid, from the bottom up.
+  // 0 if there's no fluid, 1 if it's full
+  fluidAt: (coords: vec3) => number;
+}
+
+// A world made of a fixed box of blocks, with the corner at the origin. Everything outside of it is air.
+// blocks are laid out like chunk data (see chunkDataIndex)
+export class FixedBlockWorld implements CollisionWorld {
+  private readonly size: vec3;
+  private readonly blocks: Uint16Array;
+  private readonly solidBlock: (bi: number) => boolean;
+  private readonly fluidBlock: (bi: number) => number;
+
+  constructor(
+    size: vec3,
+    blocks: Uint16Array,
+    solidBlock: (bi: number) => boolean = bi => bi !== 0,
+    fluidBlock: (bi: number) => number = () => 0,
+  ) {
+    this.size = size;
+    this.blocks = blocks;
+    this.solidBlock = solidBlock;
+    this.fluidBlock = fluidBlock;
+  }
+
+  // index into blocks, or -1 if the coords are outside the box. Coords inside a block count as that block
+  private indexOf = (coords: vec3) => {
+    const [x, y, z] = coords.map(Math.floor);
+    const [sx, sy, sz] = this.size;
+    if (x < 0 || x >= sx || y < 0 || y >= sy || z < 0 || z >= sz) {
+      return -1;
+    }
+    return x * sy * sz + y * sz + z;
+  }
+
+  // the block at the given coords. Blocks outside the box are air
+  getBlock = (coords: vec3) => {
+    const i = this.indexOf(coords);
+    return i === -1 ? 0 : this.blocks[i];
+  }
+
+  // returns false if the coords are outside the box
+  setBlock = (coords: vec3, bi: number) => {
+    const i = this.indexOf(coords);
+    if (i === -1) {
+      return false;
+    }
+    this.blocks[i] = bi;
+    return true;
+  }
+
+  isSolid = (coords: vec3) => this.solidBlock(this.getBlock(coords));
+
+  fluidAt = (coords: vec3) => this.fluidBlock(this.getBlock(coords));
+}
+
+export type MoveResult = {
+  // how far the box actually moved
+  moved: vec3,
+  // the normals of the block faces that stopped the box, pointing away from the blocks
+  normals: vec3[],
+  // true if the box climbed onto a ledge
+  steppedUp: boolean,
+}
+
+// how close a box can get to a block before we count it as touching
+const EPSILON = 1e-6;
+
+// Moves the box along one axis by up to distance, stopping at the first solid block in the way.
+// Returns how far it got
+function sweepAxis(world: CollisionWorld, box: aabb, axis: number, distance: number): number {
+  if (distance === 0) {
+    return 0;
+  }
+  // the blocks the box covers on the other two axes
+  const [a1, a2] = [0, 1, 2].filter(a => a !== axis);
+  const from1 = Math.floor(box.min[a1] + EPSILON);
+  const to1 = Math.ceil(box.max[a1] - EPSILON);
+  const from2 = Math.floor(box.min[a2] + EPSILON);
+  const to2 = Math.ceil(box.max[a2] - EPSILON);
+
+  const layerIsSolid = (c: number) => {
+    const coords: vec3 = [0, 0, 0];
+    coords[axis] = c;
+    for (let i = from1; i < to1; i++) {
+      for (let j = from2; j < to2; j++) {
+        coords[a1] = i;
+        coords[a2] = j;
+        if (world.isSolid(coords)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  // go through the layers of blocks in front of the box in order, so it can't skip over a thin wall
+  if (distance > 0) {
+    const end = Math.ceil(box.max[axis] + distance);
+    for (let c = Math.ceil(box.max[axis] - EPSILON); c < end; c++) {
+      if (layerIsSolid(c)) {
+        return Math.max(c - box.max[axis], 0);
+      }
+    }
+  } else {
+    const end = Math.floor(box.min[axis] + distance);
+    for (let c = Math.floor(box.min[axis] + EPSILON) - 1; c >= end; c--) {
+      if (layerIsSolid(c)) {
+        return Math.min(c + 1 - box.min[axis], 0);
+      }
+    }
+  }
+  return distance;
+}
+
+// How much of the box is in fluid, from 0 (none of it) to 1 (all of it)
+export function submersion(world: CollisionWorld, box: aabb): number {
+  const volume = (box.max[0] - box.min[0]) * (box.max[1] - box.min[1]) * (box.max[2] - box.min[2]);
+  if (volume <= 0) {
+    return 0;
+  }
+  const overlap = (min: number, max: number, from: number, to: number) => Math.max(Math.min(max, to) - Math.max(min, from), 0);
+
+  let wet = 0;
+  for (let x = Math.floor(box.min[0]); x < Math.ceil(box.max[0]); x++) {
+    for (let y = Math.floor(box.min[1]); y < Math.ceil(box.max[1]); y++) {
+      for (let z = Math.floor(box.min[2]); z < Math.ceil(box.max[2]); z++) {
+        const filled = world.fluidAt([x, y, z]);
+        if (filled > 0) {
+          // the fluid fills the bottom of the block, and y points down
+          wet += overlap(box.min[0], box.max[0], x, x + 1)
+            * overlap(box.min[1], box.max[1], y + 1 - filled, y + 1)
+            * overlap(box.min[2], box.max[2], z, z + 1);
+        }
+      }
+    }
+  }
+  return Math.min(wet / volume, 1);
+}
+
+function translate(box: aabb, disp: vec3): aabb {
+  return { min: vec3_add(box.min, disp), max: vec3_add(box.max, disp) };
+}
+
+// moves the box along each axis in turn: vertically first, then x, then z
+function sweep(world: CollisionWorld, box: aabb, motion: vec3): MoveResult {
+  const moved: vec3 = [0, 0, 0];
+  const normals: vec3[] = [];
+  for (const axis of [1, 0, 2]) {
+    moved[axis] = sweepAxis(world, translate(box, moved), axis, motion[axis]);
+    if (moved[axis] !== motion[axis]) {
+      const normal: vec3 = [0, 0, 0];
+      normal[axis] = motion[axis] > 0 ? -1 : 1;
+      normals.push(normal);
+    }
+  }
+  return { moved, normals, steppedUp: false };
+}
+
+// Moves the box by motion, sliding along any blocks in the way.
+// If stepHeight is more than 0 and the box is blocked sideways, it tries climbing up to stepHeight onto the ledge in the way.
+// remember that y points down, so up is -y
+export function moveBox(world: CollisionWorld, box: aabb, motion: vec3, stepHeight = 0): MoveResult {
+  const result = sweep(world, box, motion);
+  const blockedSideways = result.normals.some(n => n[1] === 0);
+  if (stepHeight <= 0 || !blockedSideways) {
+    return result;
+  }
+
+  // climb, go sideways, and then come back down
+  const up = sweepAxis(world, box, 1, -stepHeight);
+  const raised = translate(box, [0, up, 0]);
+  const sideways = sweep(world, raised, [motion[0], 0, motion[2]]);
+  const afterSideways = translate(raised, sideways.moved);
+  const down = sweepAxis(world, afterSideways, 1, -up + Math.max(motion[1], 0));
+
+  const horizontal = ([x, , z]: vec3) => Math.hypot(x, z);
+  if (horizontal(sideways.moved) <= horizontal(result.moved) + EPSILON) {
+    return result;
+  }
+
+  const moved = vec3_sub(translate(afterSideways, [0, down, 0]).min, box.min);
+  const normals = sideways.normals;
+  // if we came back down onto something, we're standing on it
+  if (down < -up + Math.max(motion[1], 0)) {
+    normals.push([0, -1, 0]);
+  }
+  return { moved, normals, steppedUp: true };
+}
@@ -1,7 +1,8 @@
-import { RADIANS, vec3, vec3_cross, vec3_add, vec3_scale, vec3_norm, clamp, vec3_sub } from './utils';
+import { RADIANS, vec3, vec3_cross, vec3_add, vec3_scale, vec3_norm, clamp, vec3_sub, vec3_dot, vec3_dup, vec3_length, assert, aabb } from './utils';
 import { Camera, CameraBasis } from './camera'
 import World, { Highlight } from './world'
 import { getNormal } from './block';
+import { CollisionWorld, MoveResult, moveBox, submersion } from './collision';
 
 type GlobalComponentData = {
 }
@@ -9,7 +10,10 @@ type GlobalComponentData = {
 
 export abstract class Component {
   // must override
-  abstract applySystem: (e: Entity) => void;
+  // runs once per simulation step, dt is the length of the step in seconds (see Simulation)
+  abstract applySystem: (e: Entity, dt: number) => void;
+  // runs once per frame, after the simulation. alpha is how far the frame is from the last step to the next, from 0 to 1
+  applyRender?: (e: Entity, alpha: number) => void;
 }
 
 // https://stackoverflow.com/questions/1349404/generate-random-string-characters-in-javascript
@@ -28,6 +32,8 @@ function generateId(len: number) {
 export class Entity {
   // location of the entity
   pos: vec3;
+  // location of the entity before the last update, so that frames between updates can be interpolated
+  prevPos: vec3;
   // vector the entity is looking at
   dir: vec3;
   // coordinate system of entity
@@ -41,17 +47,32 @@ export class Entity {
     this.worldup = worldup;
     this.worldright = worldright;
     this.pos = pos === undefined ? [0, 0, 0] : pos;
+    this.prevPos = this.pos;
     this.dir = dir === undefined ? [1, 0, 0] : dir;
   }
 
   // update all components
-  update = () => {
+  update = (dt: number) => {
+    this.prevPos = this.pos;
     for (const component of this.components) {
-      component.applySystem(this);
+      component.applySystem(this, dt);
     }
   }
+
+  // prepare all components for drawing a frame
+  render = (alpha: number) => {
+    for (const component of this.components) {
+      component.applyRender?.(this, alpha);
+    }
+  }
+
+  // where the entity is between the last update and the one before, with alpha from 0 to 1
+  interpolatedPos = (alpha: number): vec3 => vec3_add(this.prevPos, vec3_scale(vec3_sub(this.pos, this.prevPos), alpha));
 }
 
+// the blocks the number keys select for placing, starting at 1. Looked up by name, so the order of the manifest doesn't matter
+const HOTBAR_BLOCKS = ["grass", "soil", "stone", "glass", "lamp", "red lamp", "water", "sand"];
+
 export class PlayerControlComponent extends Component {
 
   private physics: PhysicsComponent;
@@ -138,7 +159,7 @@ export class PlayerControlComponent extends Component {
     });
   }
 
-  applySystem = (e: Entity) => {
+  applySystem = (e: Entity, dt: number) => {
     // build basis vectors
     const basis = new CameraBasis(this.pitch, this.yaw, e.worldup, e.worldright);
     // the player basis is in the opposite direction as the direction the camera looks
@@ -147,7 +168,8 @@ export class PlayerControlComponent extends Component {
     // only do things if control is locked
     if (this.controlsEnabled) {
       const forwarddir = vec3_norm(vec3_cross(basis.right, e.worldup));
-      let movscale = this.fast ? 0.1 : 0.04;
+      // blocks per second
+      let movscale = this.fast ? 6 : 2.4;
       if (this.fly) {
         // fly
         if (this.keys.has('KeyW')) {
@@ -187,28 +209,19 @@ export class PlayerControlComponent extends Component {
         }
       }
 
-      if (this.keys.has('Digit1')) {
-        this.blockInteraction.placeID = 1;
-      }
-      if (this.keys.has('Digit2')) {
-        this.blockInteraction.placeID = 2;
-      }
-      if (this.keys.has('Digit3')) {
-        this.blockInteraction.placeID = 3;
-      }
-      if (this.keys.has('Digit4')) {
-        this.blockInteraction.placeID = 4;
-      }
-      if (this.keys.has('Digit5')) {
-        this.blockInteraction.placeID = 5;
+      // select which block to place with the number keys
+      for (let slot = 0; slot < HOTBAR_BLOCKS.length; slot++) {
+        if (this.keys.has(`Digit${slot + 1}`)) {
+          this.blockInteraction.selectHotbarSlot(slot);
+        }
       }
 
 
       // break/place block
       if (this.leftMouseDown) {
-        this.blockInteraction.breakSelectedBlock();
+        this.blockInteraction.breakSelectedBlock(dt);
       } else if (this.rightMouseDown) {
-        this.blockInteraction.placeSelectedBlock();
+        this.blockInteraction.placeSelectedBlock(dt);
       }
 
 
@@ -230,226 +243,198 @@ export class CameraComponent extends Component {
     this.camera.setDir(e.dir);
     this.camera.setPos(e.pos);
   }
-}
 
-type BoundingBox = {
-  minX: number,
-  maxX: number,
-  minY: number,
-  maxY: number,
-  minZ: number,
-  maxZ: number,
+  // move smoothly between updates
+  applyRender = (e: Entity, alpha: number) => {
+    this.camera.setDir(e.dir);
+    this.camera.setPos(e.interpolatedPos(alpha));
+  }
 }
 
-function intersects(a: BoundingBox, b: BoundingBox) {
-  return (a.minX <= b.maxX && a.maxX >= b.minX) &&
-    (a.minY <= b.maxY && a.maxY >= b.minY) &&
-    (a.minZ <= b.maxZ && a.maxZ >= b.minZ);
+export type PhysicsSettings = {
+  // how quickly things speed up while falling, in blocks per second squared
+  gravity: number,
+  // the fastest things can fall, in blocks per second
+  terminalVelocity: number,
+  // how quickly sideways movement dies down on the ground and in the air, as the fraction of speed lost per second
+  groundFriction: number,
+  airFriction: number,
+  // how quickly walking speeds up towards the speed we want to go at, on the ground and in the air, in blocks per second squared
+  groundAcceleration: number,
+  airAcceleration: number,
+  // the speed a jump starts at, in blocks per second
+  jumpSpeed: number,
+  // how quickly flying catches up to the speed we want to go at, as the fraction of the difference made up per second
+  flyResponsiveness: number,
+  // how hard fluid pushes things up when they're all the way under, in blocks per second squared.
+  // More than gravity makes things float
+  buoyancy: number,
+  // the fraction of speed lost per second all the way under fluid
+  fluidDrag: number,
+  // the speed swimming up goes at, in blocks per second
+  swimSpeed: number,
 }
 
-// TODO: this component should be implementing collision code
+export const DEFAULT_PHYSICS_SETTINGS: PhysicsSettings = {
+  gravity: 3.6,
+  terminalVelocity: 6,
+  groundFriction: 10,
+  airFriction: 0.5,
+  groundAcceleration: 40,
+  airAcceleration: 8,
+  jumpSpeed: 3,
+  flyResponsiveness: 12,
+  buoyancy: 5,
+  fluidDrag: 2,
+  swimSpeed: 1.5,
+};
+
+// moves the entity around, with gravity, without letting it pass through blocks
 export class PhysicsComponent extends Component {
-  private world: World;
+  private world: CollisionWorld;
 
-  private upVel = 0;
+  private settings: PhysicsSettings = { ...DEFAULT_PHYSICS_SETTINGS };
 
-  private wantGo: vec3 = [0, 0, 0];
+  // in blocks per second
+  private velocity: vec3 = [0, 0, 0];
+
+  // the velocity we want to go at this step, from go
+  private wantVel: vec3 = [0, 0, 0];
   private wantJump = false;
 
-  private readonly x_rad = 0.3;
-  private readonly z_rad = 0.3;
-  private readonly p_y_rad = 1.5;
-  private readonly n_y_rad = 0.3;
+  // the entity's box, relative to its position
+  private readonly box: aabb;
+
+  // the highest ledge the entity can walk onto without jumping
+  private readonly stepHeight: number;
 
-  private readonly side_depth = 0.1;
-  private readonly head_depth = 0.1;
-  private readonly foot_depth = 0.6;
+  // the result of the last move, with the normals of the blocks we're touching
+  private lastMove?: MoveResult;
 
   private physicsEnabled = false;
 
-  constructor(world: World) {
+  // the default box is the player's, whose position is where its eyes are.
+  // remember that y points down, so the feet are at +y
+  constructor(world: CollisionWorld, box: aabb = { min: [-0.3, -0.3, -0.3], max: [0.3, 1.5, 0.3] }, stepHeight = 1) {
     super();
     this.world = world;
+    this.box = box;
+    this.stepHeight = stepHeight;
   }
 
   // physics
   enablePhysics = () => this.physicsEnabled = true;
   disablePhysics = () => {
       this.physicsEnabled = false;
-      this.upVel = 0;
+      this.lastMove = undefined;
   }
   getPhysicsEnabled = () => this.physicsEnabled;
 
+  getSettings = (): PhysicsSettings => ({ ...this.settings });
 
-  go = (disp: vec3) => {
-    this.wantGo = vec3_add(this.wantGo, disp);
+  setSettings = (settings: PhysicsSettings) => {
+    for (const [name, value] of Object.entries(settings)) {
+      assert(Number.isFinite(value) && value >= 0, `physics setting ${name} must be a number >= 0, found ${value}`);
+    }
+    this.settings = { ...settings };
+  }
+
+  getVelocity = () => vec3_dup(this.velocity);
+
+  // the normals of the blocks that stopped the entity on its last move
+  getContactNormals = () => this.lastMove?.normals ?? [];
+
+  // true if the entity is standing on a block
+  isOnGround = () => this.getContactNormals().some(n => n[1] < 0);
+
+  // ask to move at the given velocity, in blocks per second. Calls in the same step add up
+  go = (vel: vec3) => {
+    this.wantVel = vec3_add(this.wantVel, vel);
   }
 
   jump = () => {
     this.wantJump = true;
   }
 
-  // this function calculates where the player should go
-  private calculatePlayerIntersection = (desiredLoc: vec3) => {
-    // calculate 6 player bounding boxes
-    let bbLeft: BoundingBox = {
-      minX: desiredLoc[0] - this.x_rad,
-      maxX: desiredLoc[0] - this.x_rad + this.side_depth,
-      minY: desiredLoc[1] - this.n_y_rad + this.head_depth,
-      maxY: desiredLoc[1] + this.p_y_rad - this.foot_depth ,
-      minZ: desiredLoc[2] - this.z_rad,
-      maxZ: desiredLoc[2] + this.z_rad,
-    };
-    let bbRight: BoundingBox = {
-      minX: desiredLoc[0] + this.x_rad - this.side_depth,
-      maxX: desiredLoc[0] + this.x_rad,
-      minY: desiredLoc[1] - this.n_y_rad + this.head_depth,
-      maxY: desiredLoc[1] + this.p_y_rad - this.foot_depth ,
-      minZ: desiredLoc[2] - this.z_rad,
-      maxZ: desiredLoc[2] + this.z_rad,
-    };
-    let bbBack: BoundingBox = {
-      minX: desiredLoc[0] - this.x_rad,
-      maxX: desiredLoc[0] + this.x_rad,
-      minY: desiredLoc[1] - this.n_y_rad + this.head_depth,
-      maxY: desiredLoc[1] + this.p_y_rad - this.foot_depth ,
-      minZ: desiredLoc[2] - this.z_rad,
-      maxZ: desiredLoc[2] - this.z_rad + this.side_depth,
-    };
-    let bbFront: BoundingBox = {
-      minX: desiredLoc[0] - this.x_rad,
-      maxX: desiredLoc[0] + this.x_rad,
-      minY: desiredLoc[1] - this.n_y_rad + this.head_depth,
-      maxY: desiredLoc[1] + this.p_y_rad - this.foot_depth ,
-      minZ: desiredLoc[2] + this.z_rad - this.side_depth,
-      maxZ: desiredLoc[2] + this.z_rad,
-    };
-    let bbUp: BoundingBox = {
-      minX: desiredLoc[0] - this.x_rad,
-      maxX: desiredLoc[0] + this.x_rad,
-      minY: desiredLoc[1] - this.n_y_rad,
-      maxY: desiredLoc[1] - this.n_y_rad + this.head_depth,
-      minZ: desiredLoc[2] - this.z_rad,
-      maxZ: desiredLoc[2] + this.z_rad,
-    };
-    let bbDown: BoundingBox = {
-      minX: desiredLoc[0] - this.x_rad,
-      maxX: desiredLoc[0] + this.x_rad,
-      minY: desiredLoc[1] + this.p_y_rad - this.foot_depth,
-      maxY: desiredLoc[1] + this.p_y_rad,
-      minZ: desiredLoc[2] - this.z_rad,
-      maxZ: desiredLoc[2] + this.z_rad,
-    };
-
-    let intersectLeft = false;
-    let intersectRight = false;
-    let intersectUp = false;
-    let intersectDown = false;
-    let intersectBack = false;
-    let intersectFront = false;
-
-    for (let x = -2; x <= 2; x++) {
-      for (let y = -2; y <= 2; y++) {
-        for (let z = -2; z <= 2; z++) {
-          const pos = vec3_add(desiredLoc, [x, y, z]).map(x => Math.floor(x)) as vec3;
-          const block = this.world.getBlock(pos);
-          if (block != null && this.world.blockManager.defs[block].pointable) {
-            // create bounding box of block
-            // (TODO: make the bounding box in the player coordinates)
-            let bbBlock: BoundingBox = {
-              minX: pos[0],
-              maxX: pos[0] + 1,
-              minY: pos[1],
-              maxY: pos[1] + 1,
-              minZ: pos[2],
-              maxZ: pos[2] + 1,
-            };
-            if (!intersectLeft && intersects(bbLeft, bbBlock)) {
-              intersectLeft = true;
-            }
-            if (!intersectRight && intersects(bbRight, bbBlock)) {
-              intersectRight = true;
-            }
-            if (!intersectUp && intersects(bbUp, bbBlock)) {
-              intersectUp = true;
-            }
-            if (!intersectDown && intersects(bbDown, bbBlock)) {
-              intersectDown = true;
-            }
-            if (!intersectBack && intersects(bbBack, bbBlock)) {
-              intersectBack = true;
-            }
-            if (!intersectFront && intersects(bbFront, bbBlock)) {
-              intersectFront = true;
-            }
-          }
-        }
-      }
-    }
-
-    return {
-      left: intersectLeft,
-      right: intersectRight,
-      up: intersectUp,
-      down: intersectDown,
-      back: intersectBack,
-      front: intersectFront,
-    };
+  // push the entity, changing its velocity immediately (for example, knockback from being hit)
+  applyImpulse = (impulse: vec3) => {
+    this.velocity = vec3_add(this.velocity, impulse);
   }
 
+  applySystem = (e: Entity, dt: number) => {
+    const {
+      gravity, terminalVelocity, groundFriction, airFriction, groundAcceleration, airAcceleration, jumpSpeed, flyResponsiveness,
+      buoyancy, fluidDrag, swimSpeed,
+    } = this.settings;
 
-  applySystem = (e: Entity) => {
     // fly mode
     if (!this.physicsEnabled) {
-      e.pos = vec3_add(e.pos, this.wantGo);
-      this.wantGo = [0, 0, 0];
+      // ease towards the speed we want, instead of starting and stopping instantly
+      const catchUp = 1 - Math.exp(-flyResponsiveness * dt);
+      this.velocity = vec3_add(this.velocity, vec3_scale(vec3_sub(this.wantVel, this.velocity), catchUp));
+      e.pos = vec3_add(e.pos, vec3_scale(this.velocity, dt));
+      this.wantVel = [0, 0, 0];
+      this.wantJump = false;
       return;
     }
 
-    // decrement up velocity due to gravity (while making sure it remains within reasonable limits)
-    this.upVel -= 0.001;
-    this.upVel = clamp(this.upVel, -0.1, 0.1);
+    const onGround = this.isOnGround();
+    const box = { min: vec3_add(e.pos, this.box.min), max: vec3_add(e.pos, this.box.max) };
+    // how much of us is under fluid, from 0 to 1
+    const submerged = submersion(this.world, box);
+
+    // split the velocity into the part along worldup, and the part along the ground
+    let up = vec3_dot(this.velocity, e.worldup);
+    let side = vec3_sub(this.velocity, vec3_scale(e.worldup, up));
+
+    // friction slows us down, a lot more on the ground than in the air
+    side = vec3_scale(side, Math.exp(-(onGround ? groundFriction : airFriction) * dt));
+
+    // speed up in the direction we want to go, but not past the speed we want to go at
+    const wantSide = vec3_sub(this.wantVel, vec3_scale(e.worldup, vec3_dot(this.wantVel, e.worldup)));
+    const wantSpeed = vec3_length(wantSide);
+    if (wantSpeed > 0) {
+      const wantDir = vec3_scale(wantSide, 1 / wantSpeed);
+      const missing = wantSpeed - vec3_dot(side, wantDir);
+      if (missing > 0) {
+        side = vec3_add(side, vec3_scale(wantDir, Math.min((onGround ? groundAcceleration : airAcceleration) * dt, missing)));
+      }
+    }
 
-    // find where we want to go, taking into account our upward velocity
-    this.wantGo = vec3_add(this.wantGo, vec3_scale(e.worldup, this.upVel));
-    let desiredLoc = vec3_add(e.pos, this.wantGo);
+    // fall, but no faster than terminal velocity
+    up = Math.max(up - gravity * dt, -terminalVelocity);
 
-    const intersection = this.calculatePlayerIntersection(desiredLoc);
+    // fluid pushes us up and slows us down, the more the deeper we are in it
+    if (submerged > 0) {
+      up += buoyancy * submerged * dt;
+      const drag = Math.exp(-fluidDrag * submerged * dt);
+      up *= drag;
+      side = vec3_scale(side, drag);
+    }
 
-    // if we want to jump, and the player has their feet in the ground
-    if (this.wantJump && intersection.down) {
-      this.upVel = 0.05;
+    // if we want to jump, and the player has their feet on the ground
+    if (this.wantJump && onGround) {
+      up = jumpSpeed;
+    } else if (this.wantJump && submerged > 0) {
+      // swim up
+      up = Math.max(up, swimSpeed);
     }
     this.wantJump = false;
+    this.wantVel = [0, 0, 0];
 
-    // now adjust wantGo to avoid intersections
-    if(intersection.left) {
-        this.wantGo[0] = Math.max(this.wantGo[0], 0);
-    }
-    if(intersection.right) {
-        this.wantGo[0] = Math.min(this.wantGo[0], 0);
-    }
-    if(intersection.up) {
-        this.wantGo[1] = Math.max(this.wantGo[1], 0);
-        // cancel out upwards velocity
-        this.upVel = Math.min(this.upVel, 0);
-    }
-    if(intersection.down) {
-        this.wantGo[1] = Math.min(this.wantGo[1], 0);
-        // cancel out downwards velocity
-        this.upVel = Math.max(this.upVel, 0);
-    }
-    if(intersection.back) {
-        this.wantGo[2] = Math.max(this.wantGo[2], 0);
-    }
-    if(intersection.front) {
-        this.wantGo[2] = Math.min(this.wantGo[2], 0);
-    }
+    this.velocity = vec3_add(side, vec3_scale(e.worldup, up));
 
-    // set player location
-    e.pos = vec3_add(e.pos, this.wantGo);
+    // we can only climb onto ledges from the ground
+    this.lastMove = moveBox(this.world, box, vec3_scale(this.velocity, dt), onGround ? this.stepHeight : 0);
+    e.pos = vec3_add(e.pos, this.lastMove.moved);
 
-    this.wantGo = [0, 0, 0];
+    // running into a block stops us moving into it
+    for (const normal of this.lastMove.normals) {
+      const into = vec3_dot(this.velocity, normal);
+      if (into < 0) {
+        this.velocity = vec3_sub(this.velocity, vec3_scale(normal, into));
+      }
+    }
   };
 }
 
@@ -459,58 +444,72 @@ export class BlockInteractionComponent extends Component {
   private camera: Camera;
   private world: World;
 
-  placeID = 2;
+  // the block index of each block in HOTBAR_BLOCKS
+  private readonly hotbar: number[];
+
+  placeID: number;
 
   private ray: Highlight | null = null;
 
+  // how many seconds each block has been held down for
   private breakRequests = new Map<string, number>();
   private placeRequests = new Map<string, number>();
 
+  // how long a block has to be held down to break it, or to place one
+  private readonly breakSeconds = 0.5;
+  private readonly placeSeconds = 1 / 3;
+
   constructor(camera: Camera, world: World,) {
     super();
     this.uniqueId = generateId(32);
     this.camera = camera;
     this.world = world;
+    // getIndex throws if the manifest doesn't have one of the blocks
+    this.hotbar = HOTBAR_BLOCKS.map(name => world.blockManager.getIndex(name));
+    this.placeID = world.blockManager.getIndex("soil");
+  }
+
+  // place the block in the given slot of HOTBAR_BLOCKS from now on
+  selectHotbarSlot = (slot: number) => {
+    this.placeID = this.hotbar[slot];
   }
 
-  // tell the world to break any block we have selected
-  breakSelectedBlock = () => {
-    const now = Date.now();
+  // tell the world to break any block we have selected, once it's been held down for long enough
+  breakSelectedBlock = (dt: number) => {
     // figure out where camera is pointing
     if (this.ray) {
       const dest = JSON.stringify(this.ray.coords);
-      const n = this.breakRequests.get(dest);
-      this.breakRequests.set(dest, n === undefined ? 0 : n + 1);
+      const held = this.breakRequests.get(dest);
+      this.breakRequests.set(dest, held === undefined ? 0 : held + dt);
     }
   }
 
-  // tell the world to break any block we have selected
-  placeSelectedBlock = () => {
-    const now = Date.now();
+  // tell the world to place a block next to the one we have selected, once it's been held down for long enough
+  placeSelectedBlock = (dt: number) => {
     // figure out where camera is pointing
     if (this.ray) {
       const dest = JSON.stringify(vec3_add(this.ray.coords, getNormal(this.ray.face)));
-      const n = this.placeRequests.get(dest);
-      this.placeRequests.set(dest, n === undefined ? 0 : n + 1);
+      const held = this.placeRequests.get(dest);
+      this.placeRequests.set(dest, held === undefined ? 0 : held + dt);
     }
   }
 
   // figure out where camera is looking and break block
   applySystem = (e: Entity) => {
-    for (const [loc, count] of this.breakRequests) {
-      if (count > 30) {
+    for (const [loc, held] of this.breakRequests) {
+      if (held > this.breakSeconds) {
         this.world.setBlock(JSON.parse(loc), 0);
         this.breakRequests.delete(loc);
       }
     }
-    for (const [loc, count] of this.placeRequests) {
-      if (count > 20) {
+    for (const [loc, held] of this.placeRequests) {
+      if (held > this.placeSeconds) {
         this.world.setBlock(JSON.parse(loc), this.placeID);
         this.placeRequests.delete(loc);
       }
     }
-    // update ray
-    this.ray = this.world.castRay(this.camera.getPos(), this.camera.getDir(), 100);
+    // update ray. It goes through water, so blocks can be placed and broken under it
+    this.ray = this.world.castRay(this.camera.getPos(), this.camera.getDir(), 100, { ignoreFluids: true });
     if (this.ray) {
       this.world.addHighlight(this.uniqueId, this.ray);
     } else {
@@ -518,3 +517,55 @@ export class BlockInteractionComponent extends Component {
     }
   }
 }
+
+// A block that came loose from the grid (see FallingBlocks). It falls until it lands on something,
+// then puts itself back into the grid. The entity's position is the corner of the block with the smallest coordinates
+export class FallingBlockComponent extends Component {
+  readonly uniqueId: string;
+  readonly bi: number;
+  private world: World;
+  private physics: PhysicsComponent;
+
+  // set once the block is back in the grid, or was lost by falling out of the loaded world
+  private done = false;
+
+  constructor(world: World, physics: PhysicsComponent, bi: number) {
+    super();
+    this.uniqueId = generateId(32);
+    this.world = world;
+    this.physics = physics;
+    this.bi = bi;
+    world.addEntityBlock(this.uniqueId, bi);
+  }
+
+  isDone = () => this.done;
+
+  // runs after the entity's physics
+  applySystem = (e: Entity) => {
+    if (this.done) {
+      return;
+    }
+    const coords = e.pos.map(Math.round) as vec3;
+    if (this.world.getBlock(coords) === null) {
+      this.finish();
+    } else if (this.physics.isOnGround()) {
+      // if something was put where we landed, go on top of it
+      while (this.world.isSolid(coords)) {
+        coords[1]--;
+      }
+      this.world.setBlock(coords, this.bi);
+      this.finish();
+    }
+  }
+
+  applyRender = (e: Entity, alpha: number) => {
+    if (!this.done) {
+      this.world.moveEntityBlock(this.uniqueId, e.interpolatedPos(alpha));
+    }
+  }
+
+  private finish = () => {
+    this.done = true;
+    this.world.removeEntityBlock(this.uniqueId);
+  }
+}
@@ -0,0 +1,65 @@
+import { vec3, vec3_add } from './utils';
+import World from './world';
+import { Simulation, Clock } from './simulation';
+import { Entity, PhysicsComponent, FallingBlockComponent } from './entity-component-system';
+
+// Makes gravity blocks (see BlockDef) fall when there's nothing solid under them.
+// A falling block is taken out of the grid and becomes an entity, which puts it back where it lands
+export class FallingBlocks implements Clock {
+  private readonly world: World;
+  private readonly simulation: Simulation;
+  private readonly worldup: vec3;
+  private readonly worldright: vec3;
+
+  // blocks that changed or had a neighbor change since the last step, keyed by JSON.stringify(coords)
+  private updated = new Map<string, vec3>();
+
+  // the falling blocks that are still in the simulation
+  private falling = new Map<Entity, FallingBlockComponent>();
+
+  constructor(world: World, simulation: Simulation, worldup: vec3, worldright: vec3) {
+    this.world = world;
+    this.simulation = simulation;
+    this.worldup = worldup;
+    this.worldright = worldright;
+    world.addBlockUpdateListener(coords => this.updated.set(JSON.stringify(coords), coords));
+  }
+
+  // runs after the entities in each simulation step
+  advanceTime = () => {
+    for (const [entity, block] of this.falling) {
+      if (block.isDone()) {
+        this.simulation.removeEntity(entity);
+        this.falling.delete(entity);
+      }
+    }
+
+    const updated = [...this.updated.values()];
+    this.updated.clear();
+    for (const coords of updated) {
+      const bi = this.world.getBlock(coords);
+      if (bi === null || !this.world.blockManager.defs[bi].gravity) {
+        continue;
+      }
+      // don't fall into chunks that aren't loaded
+      const below = vec3_add(coords, [0, 1, 0]);
+      if (this.world.getBlock(below) === null || this.world.isSolid(below)) {
+        continue;
+      }
+      // taking the block out wakes up the one above it, so columns fall one block per step
+      this.world.setBlock(coords, 0);
+      this.spawn(bi, coords);
+    }
+  }
+
+  private spawn = (bi: number, coords: vec3) => {
+    const physics = new PhysicsComponent(this.world, { min: [0, 0, 0], max: [1, 1, 1] }, 0);
+    physics.enablePhysics();
+    // blocks sink in fluids
+    physics.setSettings({ ...physics.getSettings(), buoyancy: 0 });
+    const block = new FallingBlockComponent(this.world, physics, bi);
+    const entity = new Entity([physics, block], this.worldup, this.worldright, coords);
+    this.falling.set(entity, block);
+    this.simulation.addEntity(entity);
+  }
+}
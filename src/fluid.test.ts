@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { vec3 } from './utils';
+import { FixedBlockWorld } from './collision';
+import { FluidBlocks, MAX_FLUID_LEVEL, cellsToFlow, flowStep, fluidLevelOf } from './fluid';
+
+const SIZE: vec3 = [9, 6, 3];
+const STONE = 1;
+
+// water levels 1 to MAX_FLUID_LEVEL are blocks 2 and up
+const water: FluidBlocks = { levels: [0, ...Array.from({ length: MAX_FLUID_LEVEL }, (_, i) => 2 + i)] };
+const SOURCE = water.levels[MAX_FLUID_LEVEL];
+
+// a plain block array with a stone floor at y = 5 (remember that y points down)
+function worldWith(blocks: [vec3, number][]) {
+  const world = new FixedBlockWorld(SIZE, new Uint16Array(SIZE[0] * SIZE[1] * SIZE[2]));
+  for (let x = 0; x < SIZE[0]; x++) {
+    for (let z = 0; z < SIZE[2]; z++) {
+      world.setBlock([x, 5, z], STONE);
+    }
+  }
+  for (const [coords, bi] of blocks) {
+    world.setBlock(coords, bi);
+  }
+  return world;
+}
+
+// run steps on every block in the world
+function flow(world: FixedBlockWorld, steps: number) {
+  const cells: vec3[] = [];
+  for (let x = 0; x < SIZE[0]; x++) {
+    for (let y = 0; y < SIZE[1]; y++) {
+      for (let z = 0; z < SIZE[2]; z++) {
+        cells.push([x, y, z]);
+      }
+    }
+  }
+  for (let i = 0; i < steps; i++) {
+    for (const { coords, block } of flowStep(world, water, cells)) {
+      world.setBlock(coords, block);
+    }
+  }
+}
+
+// the water levels along x, in the middle row at the given height
+const levelsAt = (world: FixedBlockWorld, y: number) =>
+  Array.from({ length: SIZE[0] }, (_, x) => fluidLevelOf(water, world.getBlock([x, y, 1])));
+
+describe("flowStep", () => {
+  it("falls straight down", () => {
+    const world = worldWith([[[4, 1, 1], SOURCE]]);
+    flow(world, 1);
+    expect(fluidLevelOf(water, world.getBlock([4, 2, 1]))).toBe(MAX_FLUID_LEVEL - 1);
+    // it doesn't spread sideways while it's falling
+    expect(levelsAt(world, 2)).toEqual([0, 0, 0, 0, 7, 0, 0, 0, 0]);
+    expect(levelsAt(world, 1)).toEqual([0, 0, 0, 0, 8, 0, 0, 0, 0]);
+  });
+
+  it("spreads sideways, losing a level per block", () => {
+    const world = worldWith([[[4, 4, 1], SOURCE]]);
+    flow(world, 1);
+    expect(levelsAt(world, 4)).toEqual([0, 0, 0, 7, 8, 7, 0, 0, 0]);
+    flow(world, 10);
+    expect(levelsAt(world, 4)).toEqual([4, 5, 6, 7, 8, 7, 6, 5, 4]);
+  });
+
+  it("forms a source between two sources", () => {
+    const world = worldWith([[[3, 4, 1], SOURCE], [[5, 4, 1], SOURCE]]);
+    flow(world, 1);
+    expect(fluidLevelOf(water, world.getBlock([4, 4, 1]))).toBe(MAX_FLUID_LEVEL);
+  });
+
+  it("doesn't form a source over air", () => {
+    const world = worldWith([[[3, 2, 1], SOURCE], [[5, 2, 1], SOURCE], [[3, 3, 1], STONE], [[5, 3, 1], STONE]]);
+    flow(world, 1);
+    expect(fluidLevelOf(water, world.getBlock([4, 2, 1]))).toBe(MAX_FLUID_LEVEL - 1);
+  });
+
+  it("dries up when nothing feeds it", () => {
+    const world = worldWith([[[4, 4, 1], SOURCE]]);
+    flow(world, 10);
+    world.setBlock([4, 4, 1], 0);
+    flow(world, 20);
+    expect(levelsAt(world, 4)).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0]);
+  });
+});
+
+describe("cellsToFlow", () => {
+  const keys = (cells: vec3[]) => new Set(cells.map(c => JSON.stringify(c)));
+
+  it("finds flowing fluid and the air next to fluid, but not settled sources", () => {
+    const world = worldWith([[[4, 4, 1], SOURCE], [[1, 4, 1], water.levels[5]]]);
+    const cells = cellsToFlow(world, water, [0, 0, 0], SIZE);
+    expect(keys(cells)).toEqual(keys([
+      [3, 4, 1], [5, 4, 1], [4, 4, 0], [4, 4, 2],
+      [1, 4, 1], [0, 4, 1], [2, 4, 1], [1, 4, 0], [1, 4, 2],
+    ]));
+  });
+
+  it("finds the blocks just outside the region that its fluid can flow into", () => {
+    const world = worldWith([[[3, 4, 1], SOURCE]]);
+    const cells = cellsToFlow(world, water, [0, 0, 0], [4, 6, 3]);
+    expect(keys(cells)).toContain(JSON.stringify([4, 4, 1]));
+    for (const { coords, block } of flowStep(world, water, cells)) {
+      world.setBlock(coords, block);
+    }
+    expect(levelsAt(world, 4)).toEqual([0, 0, 7, 8, 7, 0, 0, 0, 0]);
+  });
+});
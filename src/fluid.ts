@@ -0,0 +1,122 @@
+import { vec3, vec3_add } from './utils';
+
+// this file has the rules for how fluids flow. It only looks at block indexes, so it can run on any grid of blocks
+
+// Fluids are stored as one block per level: a fluid block's level says how full it is.
+// Sources are at MAX_FLUID_LEVEL and never run dry. Flowing fluid loses a level for each block it spreads sideways
+export const MAX_FLUID_LEVEL = 8;
+
+// the level of fluid that falls down from a block above
+const FALLING_LEVEL = MAX_FLUID_LEVEL - 1;
+
+// the block indexes of one kind of fluid
+export type FluidBlocks = {
+  // indexed by level. levels[0] is air, levels[MAX_FLUID_LEVEL] is a source
+  levels: number[],
+}
+
+// the blocks fluids flow through. World implements this
+export interface FluidGrid {
+  // the block at the given block coordinates, or null if it isn't loaded
+  getBlock: (coords: vec3) => number | null;
+}
+
+// the level of the fluid in the block, or 0 if it isn't this fluid (or is air)
+export function fluidLevelOf(fluid: FluidBlocks, bi: number | null): number {
+  if (bi === null) {
+    return 0;
+  }
+  const level = fluid.levels.indexOf(bi);
+  return level === -1 ? 0 : level;
+}
+
+// how full a block with the given level is, from 0 to 1, when there's no fluid above it
+export function fluidHeight(level: number): number {
+  return level / (MAX_FLUID_LEVEL + 1);
+}
+
+// remember that y points down
+const ABOVE: vec3 = [0, -1, 0];
+const BELOW: vec3 = [0, 1, 0];
+const SIDES: vec3[] = [[-1, 0, 0], [1, 0, 0], [0, 0, -1], [0, 0, 1]];
+
+// Works out what the block at coords should turn into, or returns undefined if it stays the same.
+// Only air and the fluid itself can change:
+//  * sources stay sources
+//  * fluid falls into the block below at FALLING_LEVEL
+//  * fluid spreads sideways one level lower, but only from blocks standing on something solid or on a source
+//    (otherwise it falls instead)
+//  * a block between two sources, and standing on something solid or a source, becomes a source
+//  * flowing fluid with nothing feeding it dries up
+export function nextFluidBlock(grid: FluidGrid, fluid: FluidBlocks, coords: vec3): number | undefined {
+  const air = fluid.levels[0];
+  const block = grid.getBlock(coords);
+  if (block === null || (block !== air && fluidLevelOf(fluid, block) === 0)) {
+    return undefined;
+  }
+  const level = fluidLevelOf(fluid, block);
+  if (level === MAX_FLUID_LEVEL) {
+    return undefined;
+  }
+
+  // true if the block below the given one is solid or a source. Blocks that aren't loaded count as solid
+  const standing = (at: vec3) => {
+    const below = grid.getBlock(vec3_add(at, BELOW));
+    const belowLevel = fluidLevelOf(fluid, below);
+    return below !== air && (belowLevel === 0 || belowLevel === MAX_FLUID_LEVEL);
+  }
+
+  let newLevel = fluidLevelOf(fluid, grid.getBlock(vec3_add(coords, ABOVE))) > 0 ? FALLING_LEVEL : 0;
+  let sources = 0;
+  for (const side of SIDES) {
+    const neighbor = vec3_add(coords, side);
+    const neighborLevel = fluidLevelOf(fluid, grid.getBlock(neighbor));
+    if (neighborLevel === MAX_FLUID_LEVEL) {
+      sources++;
+    }
+    if (neighborLevel > 1 && standing(neighbor)) {
+      newLevel = Math.max(newLevel, neighborLevel - 1);
+    }
+  }
+  if (sources >= 2 && standing(coords)) {
+    newLevel = MAX_FLUID_LEVEL;
+  }
+
+  return newLevel === level ? undefined : fluid.levels[newLevel];
+}
+
+// Runs one step of the flow on the given blocks. Every block is worked out from the blocks as they were before the step,
+// so the order of cells doesn't matter. Returns the blocks that changed, which the caller has to apply
+export function flowStep(grid: FluidGrid, fluid: FluidBlocks, cells: vec3[]): { coords: vec3, block: number }[] {
+  const changes: { coords: vec3, block: number }[] = [];
+  for (const coords of cells) {
+    const block = nextFluidBlock(grid, fluid, coords);
+    if (block !== undefined) {
+      changes.push({ coords, block });
+    }
+  }
+  return changes;
+}
+
+// Finds the blocks that might flow in a region whose fluid hasn't been flowing, like a chunk that was just loaded.
+// That's flowing fluid, and air that fluid above or beside it could flow into, in the box from min to max (exclusive)
+// and the blocks just around it, since fluid next to the region may have been waiting for it. Settled sources are left out
+export function cellsToFlow(grid: FluidGrid, fluid: FluidBlocks, min: vec3, max: vec3): vec3[] {
+  const air = fluid.levels[0];
+  const cells: vec3[] = [];
+  for (let x = min[0] - 1; x <= max[0]; x++) {
+    for (let y = min[1] - 1; y <= max[1]; y++) {
+      for (let z = min[2] - 1; z <= max[2]; z++) {
+        const coords: vec3 = [x, y, z];
+        const block = grid.getBlock(coords);
+        const level = fluidLevelOf(fluid, block);
+        if (level > 0 && level < MAX_FLUID_LEVEL) {
+          cells.push(coords);
+        } else if (block === air && [ABOVE, ...SIDES].some(d => fluidLevelOf(fluid, grid.getBlock(vec3_add(coords, d))) > 0)) {
+          cells.push(coords);
+        }
+      }
+    }
+  }
+  return cells;
+}
@@ -4,19 +4,27 @@ import World from './world';
 import { vec3, mat4_to_uniform } from './utils';
 import { BlockManager } from './block';
 import { Camera } from './camera';
+import { IndexedDBChunkStore } from './chunk-store';
+import { NoiseWorldGenerator } from './world-generator';
+import { Simulation } from './simulation';
+import { FallingBlocks } from './falling-blocks';
 import { Entity, PlayerControlComponent, CameraComponent, PhysicsComponent, BlockInteractionComponent } from './entity-component-system';
 
 // must be right hand coordinate system
 const worldup: vec3 = [0.0, -1.0, 0.0];
 const worldright: vec3 = [-1.0, 0.0, 0.0];
 
+// how often edited chunks are saved, in seconds
+const AUTOSAVE_SECONDS = 30;
+
 class Game {
 
   private canvas: HTMLCanvasElement;
   private camera: Camera;
   private world: World;
 
-  private entityList: Entity[];
+  // runs the entities and the world's clock
+  private simulation: Simulation;
 
   private blockManager: BlockManager;
 
@@ -25,6 +33,8 @@ class Game {
   private filledbuffer!: WebGLBuffer;
 
   private requestID?: number;
+  // when the last frame was drawn, in milliseconds
+  private lastFrameTime?: number;
 
   constructor(canvas: HTMLCanvasElement, blockManager: BlockManager) {
     this.canvas = canvas;
@@ -41,7 +51,36 @@ class Game {
 
     this.gl = canvas.getContext('webgl2')!
 
-    this.world = new World(42, this.camera.getPos(), this.gl, blockManager, this.camera);
+    const seed = 42;
+    this.world = new World(
+      new NoiseWorldGenerator(seed, blockManager),
+      this.camera.getPos(),
+      this.gl,
+      blockManager,
+      this.camera,
+      new IndexedDBChunkStore(`world-${seed}`)
+    );
+
+    // Save edited chunks every so often, and whenever the page is hidden.
+    // The page doesn't wait for IndexedDB when it's closed, so saving on unload alone can lose edits
+    window.setInterval(this.world.saveAll, AUTOSAVE_SECONDS * 1000);
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.world.saveAll();
+      }
+    });
+    window.addEventListener('pagehide', this.world.saveAll);
+    window.addEventListener('beforeunload', this.world.saveAll);
+
+    // change the render distance
+    window.addEventListener('keypress', e => {
+      if (e.key === '[') {
+        this.world.setRenderDistance(this.world.getRenderDistance() - 1);
+      }
+      if (e.key === ']') {
+        this.world.setRenderDistance(this.world.getRenderDistance() + 1);
+      }
+    });
 
     // construct player
     const playerPhysics = new PhysicsComponent(this.world);
@@ -64,7 +103,9 @@ class Game {
       playerBlockInteraction,
     ], worldup, worldright)
 
-    this.entityList = [player];
+    this.simulation = new Simulation([player], [this.world]);
+    // gravity blocks fall as entities
+    this.simulation.addClock(new FallingBlocks(this.world, this.simulation, worldup, worldright));
 
     // resize canvas on window
     this.resizeCanvas();
@@ -79,10 +120,15 @@ class Game {
   start = () => this.animationLoop();
 
 
-  animationLoop = () => {
-    // update all entities
-    for (const entity of this.entityList) {
-      entity.update();
+  animationLoop = (time: number = performance.now()) => {
+    // simulate however long the last frame took
+    const seconds = this.lastFrameTime === undefined ? 0 : (time - this.lastFrameTime) / 1000;
+    this.lastFrameTime = time;
+    const alpha = this.simulation.advance(seconds);
+
+    // place the entities (and the camera) in between simulation steps
+    for (const entity of this.simulation.entities) {
+      entity.render(alpha);
     }
 
     this.world.update(this.camera.getPos());
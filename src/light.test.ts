@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { vec3 } from './utils';
+import { BlockMeshInfo } from './block';
+import { CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE, chunkDataIndex } from './chunk';
+import { LightChunk, LightEngine, MAX_LIGHT_LEVEL, blockLightOf, lightChunkAlone, skyLightOf } from './light';
+
+const CHUNK_VOLUME = CHUNK_X_SIZE * CHUNK_Y_SIZE * CHUNK_Z_SIZE;
+
+const AIR = 0;
+const STONE = 1;
+const LAMP = 2;
+
+const solid = (lightLevel: number): BlockMeshInfo => ({ visible: true, transparent: false, light: lightLevel > 0, lightLevel, faceLayers: [] });
+const info: BlockMeshInfo[] = [
+  { visible: false, transparent: true, light: false, lightLevel: 0, faceLayers: [] },
+  solid(0),
+  solid(14),
+];
+
+// a few loaded chunks, lit the way World lights them: on their own first (in the workers), then fixed up by the engine
+class TestWorld {
+  readonly chunks = new Map<string, LightChunk>();
+  readonly engine = new LightEngine(info, coord => this.chunks.get(JSON.stringify(coord)));
+
+  load = (coord: vec3, blocks: Uint16Array) => {
+    this.chunks.set(JSON.stringify(coord), { blocks, light: lightChunkAlone(info, blocks) });
+    return this.engine.lightChunk(coord);
+  }
+
+  private voxel = ([x, y, z]: vec3) => {
+    const chunk = this.chunks.get(JSON.stringify([Math.floor(x / CHUNK_X_SIZE), Math.floor(y / CHUNK_Y_SIZE), Math.floor(z / CHUNK_Z_SIZE)]))!;
+    const index = chunkDataIndex(
+      ((x % CHUNK_X_SIZE) + CHUNK_X_SIZE) % CHUNK_X_SIZE,
+      ((y % CHUNK_Y_SIZE) + CHUNK_Y_SIZE) % CHUNK_Y_SIZE,
+      ((z % CHUNK_Z_SIZE) + CHUNK_Z_SIZE) % CHUNK_Z_SIZE,
+    );
+    return { chunk, index };
+  }
+
+  setBlock = (coords: vec3, block: number) => {
+    const { chunk, index } = this.voxel(coords);
+    chunk.blocks[index] = block;
+    return this.engine.blockChanged(coords);
+  }
+
+  sky = (coords: vec3) => {
+    const { chunk, index } = this.voxel(coords);
+    return skyLightOf(chunk.light[index]);
+  }
+
+  block = (coords: vec3) => {
+    const { chunk, index } = this.voxel(coords);
+    return blockLightOf(chunk.light[index]);
+  }
+
+  // the light of every chunk, as it would be if the chunks were loaded again with the blocks they have now
+  relit = () => {
+    const fresh = new TestWorld();
+    for (const [key, chunk] of this.chunks) {
+      fresh.load(JSON.parse(key), chunk.blocks.slice());
+    }
+    return fresh.lights();
+  }
+
+  lights = () => new Map([...this.chunks].map(([key, chunk]) => [key, chunk.light]));
+}
+
+const airChunk = () => new Uint16Array(CHUNK_VOLUME);
+
+// an air chunk with a stone floor on its bottom layer
+function roofChunk() {
+  const blocks = airChunk();
+  for (let x = 0; x < CHUNK_X_SIZE; x++) {
+    for (let z = 0; z < CHUNK_Z_SIZE; z++) {
+      blocks[chunkDataIndex(x, CHUNK_Y_SIZE - 1, z)] = STONE;
+    }
+  }
+  return blocks;
+}
+
+describe("LightEngine", () => {
+  it("lights the area around a placed emitter, across chunk borders, and darkens it when the emitter is removed", () => {
+    const world = new TestWorld();
+    world.load([0, 0, 0], airChunk());
+    world.load([1, 0, 0], airChunk());
+
+    const changed = world.setBlock([14, 8, 8], LAMP);
+    expect(world.block([14, 8, 8])).toBe(14);
+    expect(world.block([15, 8, 8])).toBe(13);
+    expect(world.block([16, 8, 8])).toBe(12);
+    expect(world.block([20, 9, 8])).toBe(7);
+    expect(changed).toContain(JSON.stringify([0, 0, 0]));
+    expect(changed).toContain(JSON.stringify([1, 0, 0]));
+    expect(world.lights()).toEqual(world.relit());
+
+    world.setBlock([14, 8, 8], AIR);
+    for (const coords of [[14, 8, 8], [15, 8, 8], [16, 8, 8], [20, 9, 8]] as vec3[]) {
+      expect(world.block(coords)).toBe(0);
+    }
+    expect(world.lights()).toEqual(world.relit());
+  });
+
+  it("lets the sky down a column when its roof is opened, and takes it away when the roof is closed", () => {
+    const world = new TestWorld();
+    // remember that y points down, so the roof is in the chunk above
+    world.load([0, -1, 0], roofChunk());
+    world.load([0, 0, 0], airChunk());
+    expect(world.sky([5, -2, 5])).toBe(MAX_LIGHT_LEVEL);
+    expect(world.sky([5, 0, 5])).toBe(0);
+    expect(world.sky([5, 15, 5])).toBe(0);
+
+    const changed = world.setBlock([5, -1, 5], AIR);
+    for (let y = -1; y < CHUNK_Y_SIZE; y++) {
+      expect(world.sky([5, y, 5])).toBe(MAX_LIGHT_LEVEL);
+    }
+    expect(world.sky([6, 10, 5])).toBe(MAX_LIGHT_LEVEL - 1);
+    expect(world.sky([8, 10, 5])).toBe(MAX_LIGHT_LEVEL - 3);
+    expect(changed).toContain(JSON.stringify([0, 0, 0]));
+    expect(world.lights()).toEqual(world.relit());
+
+    world.setBlock([5, -1, 5], STONE);
+    for (let y = 0; y < CHUNK_Y_SIZE; y++) {
+      expect(world.sky([5, y, 5])).toBe(0);
+      expect(world.sky([8, y, 5])).toBe(0);
+    }
+    expect(world.lights()).toEqual(world.relit());
+  });
+
+  it("lights chunks the same whatever order they load in", () => {
+    const roof = roofChunk();
+    roof[chunkDataIndex(3, CHUNK_Y_SIZE - 1, 3)] = AIR;
+    const lamps = airChunk();
+    lamps[chunkDataIndex(0, 4, 4)] = LAMP;
+    lamps[chunkDataIndex(9, 0, 15)] = LAMP;
+    const chunks: [vec3, Uint16Array][] = [
+      [[0, -1, 0], roof],
+      [[0, 0, 0], lamps],
+      [[-1, 0, 0], airChunk()],
+      [[0, 0, 1], roofChunk()],
+    ];
+
+    const lights = (order: number[]) => {
+      const world = new TestWorld();
+      for (const i of order) {
+        world.load(chunks[i][0], chunks[i][1].slice());
+      }
+      return world.lights();
+    };
+    const expected = lights([0, 1, 2, 3]);
+    expect(expected.get(JSON.stringify([0, 0, 0]))![chunkDataIndex(3, 15, 3)]).not.toBe(0);
+    for (const order of [[3, 2, 1, 0], [1, 0, 3, 2], [2, 1, 3, 0]]) {
+      expect(lights(order)).toEqual(expected);
+    }
+  });
+});
@@ -0,0 +1,322 @@
+import { vec3, mod } from './utils';
+import { BlockMeshInfo } from './block';
+import { CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE, chunkDataIndex } from './chunk';
+
+// this file contains the voxel light model: sky light coming down from above and block light from emissive blocks,
+// both spread by flood fill. Each voxel stores both levels in one byte: sky light in the high 4 bits, block light in the low 4.
+
+export const MAX_LIGHT_LEVEL = 15;
+
+export const skyLightOf = (packed: number) => packed >> 4;
+export const blockLightOf = (packed: number) => packed & 0xF;
+export const packLight = (sky: number, block: number) => (sky << 4) | block;
+
+// light of voxels outside the loaded world. We assume those are open to the sky
+export const UNLOADED_LIGHT = packLight(MAX_LIGHT_LEVEL, 0);
+
+type LightChannel = "sky" | "block";
+
+// a loaded chunk, as far as lighting is concerned
+export type LightChunk = {
+  blocks: Uint16Array,
+  light: Uint8Array,
+}
+
+// offsets to the 6 adjacent voxels. Index 3 is the voxel below (remember that y points down)
+const ADJACENT: vec3[] = [
+  [-1, 0, 0],
+  [+1, 0, 0],
+  [0, -1, 0],
+  [0, +1, 0],
+  [0, 0, -1],
+  [0, 0, +1],
+];
+const BELOW = 3;
+
+// Keeps the light of loaded chunks up to date.
+// Sky light at full strength travels straight down without fading, and every other step costs one level.
+// Light spills across chunk borders, but not into chunks that aren't loaded.
+// A chunk whose chunk above isn't loaded is assumed to be open to the sky, and gets fixed up once the chunk above loads.
+export class LightEngine {
+  private readonly info: BlockMeshInfo[];
+  private readonly getChunk: (worldChunkCoords: vec3) => LightChunk | undefined;
+
+  // chunks whose light (or whose neighbors' light on their border) changed during the current operation,
+  // keyed like World.chunk_map
+  private changed = new Set<string>();
+
+  // the last chunk looked up, since most lookups land in the same chunk as the one before
+  private cachedCoord: vec3 | undefined;
+  private cachedChunk: LightChunk | undefined;
+
+  constructor(info: BlockMeshInfo[], getChunk: (worldChunkCoords: vec3) => LightChunk | undefined) {
+    this.info = info;
+    this.getChunk = getChunk;
+  }
+
+  private chunkAt = (cx: number, cy: number, cz: number) => {
+    const cached = this.cachedCoord;
+    if (cached === undefined || cached[0] !== cx || cached[1] !== cy || cached[2] !== cz) {
+      this.cachedCoord = [cx, cy, cz];
+      this.cachedChunk = this.getChunk(this.cachedCoord);
+    }
+    return this.cachedChunk;
+  }
+
+  // finds the chunk and index of the voxel at the world coordinates, or undefined if its chunk isn't loaded
+  private voxel = (x: number, y: number, z: number): { chunk: LightChunk, index: number } | undefined => {
+    const chunk = this.chunkAt(Math.floor(x / CHUNK_X_SIZE), Math.floor(y / CHUNK_Y_SIZE), Math.floor(z / CHUNK_Z_SIZE));
+    if (chunk === undefined) {
+      return undefined;
+    }
+    return { chunk, index: chunkDataIndex(mod(x, CHUNK_X_SIZE), mod(y, CHUNK_Y_SIZE), mod(z, CHUNK_Z_SIZE)) };
+  }
+
+  private opaque = (block: number) => this.info[block].visible && !this.info[block].transparent;
+
+  private getLevel = ({ chunk, index }: { chunk: LightChunk, index: number }, channel: LightChannel) =>
+    channel === "sky" ? skyLightOf(chunk.light[index]) : blockLightOf(chunk.light[index]);
+
+  private setLevel = (x: number, y: number, z: number, { chunk, index }: { chunk: LightChunk, index: number }, channel: LightChannel, level: number) => {
+    const old = chunk.light[index];
+    const packed = channel === "sky"
+      ? packLight(level, blockLightOf(old))
+      : packLight(skyLightOf(old), level);
+    if (packed === old) {
+      return;
+    }
+    chunk.light[index] = packed;
+
+    // meshes use the light of the voxel in front of each face, so a change on the border also affects the next chunk over
+    const cx = Math.floor(x / CHUNK_X_SIZE), cy = Math.floor(y / CHUNK_Y_SIZE), cz = Math.floor(z / CHUNK_Z_SIZE);
+    const lx = mod(x, CHUNK_X_SIZE), ly = mod(y, CHUNK_Y_SIZE), lz = mod(z, CHUNK_Z_SIZE);
+    this.changed.add(JSON.stringify([cx, cy, cz]));
+    if (lx === 0) { this.changed.add(JSON.stringify([cx - 1, cy, cz])); }
+    if (lx === CHUNK_X_SIZE - 1) { this.changed.add(JSON.stringify([cx + 1, cy, cz])); }
+    if (ly === 0) { this.changed.add(JSON.stringify([cx, cy - 1, cz])); }
+    if (ly === CHUNK_Y_SIZE - 1) { this.changed.add(JSON.stringify([cx, cy + 1, cz])); }
+    if (lz === 0) { this.changed.add(JSON.stringify([cx, cy, cz - 1])); }
+    if (lz === CHUNK_Z_SIZE - 1) { this.changed.add(JSON.stringify([cx, cy, cz + 1])); }
+  }
+
+  // the sky light coming into the voxel from the voxel above it
+  private skyFromAbove = (x: number, y: number, z: number) => {
+    const above = this.voxel(x, y - 1, z);
+    return above === undefined ? MAX_LIGHT_LEVEL : this.getLevel(above, "sky");
+  }
+
+  // spreads light outwards from every voxel in the queue
+  private increase = (queue: vec3[], channel: LightChannel) => {
+    for (let i = 0; i < queue.length; i++) {
+      const [x, y, z] = queue[i];
+      const voxel = this.voxel(x, y, z);
+      if (voxel === undefined) {
+        continue;
+      }
+      const level = this.getLevel(voxel, channel);
+      if (level <= 1) {
+        continue;
+      }
+      for (let d = 0; d < ADJACENT.length; d++) {
+        const [dx, dy, dz] = ADJACENT[d];
+        const nx = x + dx, ny = y + dy, nz = z + dz;
+        const neighbor = this.voxel(nx, ny, nz);
+        if (neighbor === undefined || this.opaque(neighbor.chunk.blocks[neighbor.index])) {
+          continue;
+        }
+        const newLevel = channel === "sky" && d === BELOW && level === MAX_LIGHT_LEVEL ? MAX_LIGHT_LEVEL : level - 1;
+        if (this.getLevel(neighbor, channel) < newLevel) {
+          this.setLevel(nx, ny, nz, neighbor, channel, newLevel);
+          queue.push([nx, ny, nz]);
+        }
+      }
+    }
+  }
+
+  // Darkens every voxel that got its light from the voxels in the queue (which have already been set to 0).
+  // Voxels that are lit by some other source get added to relight, to spread their light back into the darkened area
+  private remove = (queue: [x: number, y: number, z: number, level: number][], relight: vec3[], channel: LightChannel) => {
+    for (let i = 0; i < queue.length; i++) {
+      const [x, y, z, level] = queue[i];
+      for (let d = 0; d < ADJACENT.length; d++) {
+        const [dx, dy, dz] = ADJACENT[d];
+        const nx = x + dx, ny = y + dy, nz = z + dz;
+        const neighbor = this.voxel(nx, ny, nz);
+        if (neighbor === undefined) {
+          continue;
+        }
+        const neighborLevel = this.getLevel(neighbor, channel);
+        if (neighborLevel === 0) {
+          continue;
+        }
+        const litByUs = neighborLevel < level || (channel === "sky" && d === BELOW && level === MAX_LIGHT_LEVEL);
+        if (!litByUs) {
+          relight.push([nx, ny, nz]);
+          continue;
+        }
+        this.setLevel(nx, ny, nz, neighbor, channel, 0);
+        queue.push([nx, ny, nz, neighborLevel]);
+        // emitters keep their own light
+        const emission = this.info[neighbor.chunk.blocks[neighbor.index]].lightLevel;
+        if (channel === "block" && emission > 0) {
+          this.setLevel(nx, ny, nz, neighbor, channel, emission);
+          relight.push([nx, ny, nz]);
+        }
+      }
+    }
+  }
+
+  private takeChanged = () => {
+    const changed = this.changed;
+    this.changed = new Set();
+    // the chunks may be loaded or unloaded before the next operation
+    this.cachedCoord = undefined;
+    this.cachedChunk = undefined;
+    return changed;
+  }
+
+  // Lights a chunk on its own, as if none of the chunks around it were loaded (so it's open to the sky).
+  // Its light must be all zeroes. Used by lightChunkAlone
+  lightAlone = (worldChunkCoords: vec3) => {
+    const chunk = this.getChunk(worldChunkCoords);
+    if (chunk === undefined) {
+      return this.takeChanged();
+    }
+    const [ox, oy, oz] = [worldChunkCoords[0] * CHUNK_X_SIZE, worldChunkCoords[1] * CHUNK_Y_SIZE, worldChunkCoords[2] * CHUNK_Z_SIZE];
+    const skyQueue: vec3[] = [];
+    const blockQueue: vec3[] = [];
+
+    // emitters
+    for (let x = 0; x < CHUNK_X_SIZE; x++) {
+      for (let y = 0; y < CHUNK_Y_SIZE; y++) {
+        for (let z = 0; z < CHUNK_Z_SIZE; z++) {
+          const index = chunkDataIndex(x, y, z);
+          const emission = this.info[chunk.blocks[index]].lightLevel;
+          if (emission > 0) {
+            this.setLevel(ox + x, oy + y, oz + z, { chunk, index }, "block", emission);
+            blockQueue.push([ox + x, oy + y, oz + z]);
+          }
+        }
+      }
+    }
+
+    // columns that the sky shines straight down into
+    for (let x = 0; x < CHUNK_X_SIZE; x++) {
+      for (let z = 0; z < CHUNK_Z_SIZE; z++) {
+        for (let y = 0; y < CHUNK_Y_SIZE; y++) {
+          const index = chunkDataIndex(x, y, z);
+          if (this.opaque(chunk.blocks[index])) {
+            break;
+          }
+          this.setLevel(ox + x, oy + y, oz + z, { chunk, index }, "sky", MAX_LIGHT_LEVEL);
+          skyQueue.push([ox + x, oy + y, oz + z]);
+        }
+      }
+    }
+
+    this.increase(skyQueue, "sky");
+    this.increase(blockQueue, "block");
+    return this.takeChanged();
+  }
+
+  // Lights a chunk that just finished loading, whose light came from lightChunkAlone: lets the light of the chunks around it in,
+  // and lets its own light out. Only the voxels whose light changes are visited, so this is cheap unless lots of light changes.
+  // Returns the keys of the chunks whose meshes are affected
+  lightChunk = (worldChunkCoords: vec3) => {
+    const chunk = this.getChunk(worldChunkCoords);
+    if (chunk === undefined) {
+      return this.takeChanged();
+    }
+    const [ox, oy, oz] = [worldChunkCoords[0] * CHUNK_X_SIZE, worldChunkCoords[1] * CHUNK_Y_SIZE, worldChunkCoords[2] * CHUNK_Z_SIZE];
+
+    // Sky light crosses the border between two chunks at full strength when the upper one is open to the sky.
+    // lightChunkAlone assumed that of the chunk above, and the chunk below may have assumed it of this chunk,
+    // since this chunk wasn't loaded yet. Take the sky away from the columns where that was wrong, top border first
+    const skyQueue: vec3[] = [];
+    for (const y of [oy, oy + CHUNK_Y_SIZE]) {
+      const removeQueue: [number, number, number, number][] = [];
+      for (let x = ox; x < ox + CHUNK_X_SIZE; x++) {
+        for (let z = oz; z < oz + CHUNK_Z_SIZE; z++) {
+          const voxel = this.voxel(x, y, z);
+          if (
+            voxel !== undefined &&
+            this.getLevel(voxel, "sky") === MAX_LIGHT_LEVEL &&
+            this.skyFromAbove(x, y, z) !== MAX_LIGHT_LEVEL
+          ) {
+            this.setLevel(x, y, z, voxel, "sky", 0);
+            removeQueue.push([x, y, z, MAX_LIGHT_LEVEL]);
+          }
+        }
+      }
+      this.remove(removeQueue, skyQueue, "sky");
+    }
+
+    // then spread light across the borders both ways, from the voxels on either side of the chunk's faces
+    const blockQueue: vec3[] = [];
+    for (let x = -1; x <= CHUNK_X_SIZE; x++) {
+      for (let y = -1; y <= CHUNK_Y_SIZE; y++) {
+        for (let z = -1; z <= CHUNK_Z_SIZE; z++) {
+          const outside = [x, y, z].filter((c, axis) => c === -1 || c === [CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE][axis]).length;
+          const border = [x, y, z].filter((c, axis) => c === 0 || c === [CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE][axis] - 1).length;
+          if (outside === 1 || (outside === 0 && border > 0)) {
+            skyQueue.push([ox + x, oy + y, oz + z]);
+            blockQueue.push([ox + x, oy + y, oz + z]);
+          }
+        }
+      }
+    }
+    this.increase(skyQueue, "sky");
+    this.increase(blockQueue, "block");
+
+    return this.takeChanged();
+  }
+
+  // Updates the light around a block that was just changed.
+  // Returns the keys of the chunks whose meshes are affected
+  blockChanged = (coords: vec3) => {
+    const [x, y, z] = coords.map(Math.floor);
+    const voxel = this.voxel(x, y, z);
+    if (voxel === undefined) {
+      return this.takeChanged();
+    }
+    const block = voxel.chunk.blocks[voxel.index];
+
+    for (const channel of ["sky", "block"] as LightChannel[]) {
+      // take away the light that used to be here, and everything it lit
+      const relight: vec3[] = [];
+      const old = this.getLevel(voxel, channel);
+      if (old > 0) {
+        this.setLevel(x, y, z, voxel, channel, 0);
+        this.remove([[x, y, z, old]], relight, channel);
+      }
+
+      // then light it back up
+      if (channel === "block" && this.info[block].lightLevel > 0) {
+        this.setLevel(x, y, z, voxel, channel, this.info[block].lightLevel);
+        relight.push([x, y, z]);
+      }
+      if (!this.opaque(block)) {
+        if (channel === "sky" && this.skyFromAbove(x, y, z) === MAX_LIGHT_LEVEL) {
+          this.setLevel(x, y, z, voxel, channel, MAX_LIGHT_LEVEL);
+          relight.push([x, y, z]);
+        }
+        for (const [dx, dy, dz] of ADJACENT) {
+          relight.push([x + dx, y + dy, z + dz]);
+        }
+      }
+      this.increase(relight, channel);
+    }
+
+    return this.takeChanged();
+  }
+}
+
+// Lights the blocks of a chunk on their own, as if none of the chunks around it were loaded.
+// This is the expensive part of lighting a chunk, and it doesn't need the rest of the world,
+// so the chunk workers do it (see ChunkJobRunner). LightEngine.lightChunk then fixes up the borders
+export function lightChunkAlone(info: BlockMeshInfo[], blocks: Uint16Array): Uint8Array {
+  const light = new Uint8Array(CHUNK_X_SIZE * CHUNK_Y_SIZE * CHUNK_Z_SIZE);
+  const origin: vec3 = [0, 0, 0];
+  new LightEngine(info, coord => coord.every(c => c === 0) ? { blocks, light } : undefined).lightAlone(origin);
+  return light;
+}
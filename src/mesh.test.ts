@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { BlockMeshInfo } from './block';
+import { CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE, chunkDataIndex } from './chunk';
+import { MAX_LIGHT_LEVEL, packLight } from './light';
+import { ChunkNeighborLight, ChunkNeighbors, VERTEX_FLOATS, meshChunk } from './mesh';
+
+const CHUNK_VOLUME = CHUNK_X_SIZE * CHUNK_Y_SIZE * CHUNK_Z_SIZE;
+
+const AIR = 0;
+const STONE = 1;
+
+const info: BlockMeshInfo[] = [
+  { visible: false, transparent: true, light: false, lightLevel: 0, faceLayers: [] },
+  {
+    visible: true, transparent: false, light: false, lightLevel: 0,
+    faceLayers: Array(6).fill({ layer: 0, rotation: 0, flipU: false, flipV: false }),
+  },
+];
+
+// the chunk is surrounded by air, and lit evenly so the light doesn't stop faces from merging
+const neighbors = Array(6).fill(new Uint16Array(CHUNK_VOLUME)) as ChunkNeighbors;
+const fullLight = () => new Uint8Array(CHUNK_VOLUME).fill(packLight(MAX_LIGHT_LEVEL, 0));
+const neighborLight = Array(6).fill(fullLight()) as ChunkNeighborLight;
+
+// the number of vertices of the solid mesh of the chunk
+function vertexCount(blocks: Uint16Array, greedy: boolean) {
+  const mesh = meshChunk([0, 0, 0], info, blocks, neighbors, fullLight(), neighborLight, greedy);
+  return mesh.solid.length / VERTEX_FLOATS;
+}
+
+function chunkWith(isStone: (x: number, y: number, z: number) => boolean) {
+  const blocks = new Uint16Array(CHUNK_VOLUME);
+  for (let x = 0; x < CHUNK_X_SIZE; x++) {
+    for (let y = 0; y < CHUNK_Y_SIZE; y++) {
+      for (let z = 0; z < CHUNK_Z_SIZE; z++) {
+        blocks[chunkDataIndex(x, y, z)] = isStone(x, y, z) ? STONE : AIR;
+      }
+    }
+  }
+  return blocks;
+}
+
+describe("meshChunk", () => {
+  it("merges a flat floor into one quad per side", () => {
+    const floor = chunkWith((_x, y) => y === 8);
+    // top and bottom are 16x16 faces each, and each of the 4 edges is 16 faces
+    expect(vertexCount(floor, false)).toBe((2 * 16 * 16 + 4 * 16) * 6);
+    expect(vertexCount(floor, true)).toBe(6 * 6);
+    expect(vertexCount(floor, true)).toBeLessThan(vertexCount(floor, false));
+  });
+
+  it("can't merge anything in a checkerboard", () => {
+    const checkerboard = chunkWith((x, y, z) => y === 8 && (x + z) % 2 === 0);
+    // every block shows all 6 faces, and no two faces touch
+    expect(vertexCount(checkerboard, false)).toBe(128 * 6 * 6);
+    expect(vertexCount(checkerboard, true)).toBe(128 * 6 * 6);
+  });
+
+  it("meshes a single block the same either way", () => {
+    const single = chunkWith((x, y, z) => x === 3 && y === 4 && z === 5);
+    expect(vertexCount(single, false)).toBe(6 * 6);
+    expect(vertexCount(single, true)).toBe(6 * 6);
+  });
+});
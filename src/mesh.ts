@@ -0,0 +1,573 @@
+import { vec3, vec3_add } from './utils';
+import { BlockMeshInfo, Face, FaceLayer, getNormal } from './block';
+import { CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE, chunkDataIndex } from './chunk';
+import { MAX_LIGHT_LEVEL, UNLOADED_LIGHT, skyLightOf, blockLightOf } from './light';
+import { fluidHeight } from './fluid';
+
+// this file turns chunk blocks into vertex data. It doesn't touch WebGL, so it can run in a worker
+
+export type ChunkMesh = {
+  solid: BlockFace[],
+  transparent: BlockFace[],
+  lights: EmissiveBlock[]
+}
+
+// a block that gives off a BlockLight
+export type EmissiveBlock = {
+  bi: number,
+  cubeLoc: vec3,
+}
+
+function shouldRender(thisblock: BlockMeshInfo, otherblock: BlockMeshInfo) {
+  // dont render air
+  if (!thisblock.visible) {
+    return false;
+  }
+  // dont render if both blocks are solid
+  if (!thisblock.transparent && !otherblock.transparent) {
+    return false;
+  }
+  // dont render if both blocks are the same type
+  if (thisblock == otherblock) {
+    return false;
+  }
+  // dont render between two levels of the same fluid
+  if (thisblock.fluid !== undefined && thisblock.fluid.name === otherblock.fluid?.name) {
+    return false;
+  }
+  return true;
+}
+
+export type BlockFace = {
+  bi: number,
+  face: Face,
+  // the block the face belongs to. For merged faces, the block with the smallest coordinates
+  cubeLoc: vec3,
+  // packed light (see light.ts) of the voxel in front of the face. Undefined means fully lit
+  light?: number,
+  // for faces merged by mergeFaces, how many blocks the face spans along the face's u and v axes (see faceAxes)
+  size?: [u: number, v: number],
+  // packed ambient occlusion of the face's corners (see packAO). Undefined means nothing is in the way
+  ao?: number,
+  // for fluids, how much of the block is filled, from the bottom up (see fluidHeight). Undefined means all of it
+  height?: number,
+}
+
+// ambient occlusion of a corner goes from 0 (surrounded) to 3 (nothing in the way)
+export const MAX_AO_LEVEL = 3;
+
+// Packs the ambient occlusion of the 4 corners of a face into one number, 2 bits per corner.
+// Corners are indexed by their position along the face's u and v axes (see faceAxes): corner = u + 2 * v
+export function packAO(corners: [number, number, number, number]): number {
+  return corners[0] | (corners[1] << 2) | (corners[2] << 4) | (corners[3] << 6);
+}
+
+export function aoOf(ao: number, corner: number): number {
+  return (ao >> (2 * corner)) & 3;
+}
+
+const NO_OCCLUSION = packAO([MAX_AO_LEVEL, MAX_AO_LEVEL, MAX_AO_LEVEL, MAX_AO_LEVEL]);
+
+// the ambient occlusion of a corner, given whether each of the 3 voxels in front of the face that touch the corner is solid.
+// If both sides are solid, the corner is fully hidden, even if the voxel diagonally in between isn't solid
+function cornerAO(side1: boolean, side2: boolean, corner: boolean): number {
+  if (side1 && side2) {
+    return 0;
+  }
+  return MAX_AO_LEVEL - (+side1 + +side2 + +corner);
+}
+
+// the axes (0 = x, 1 = y, 2 = z) that the texture's u and v coordinates run along on each face
+export function faceAxes(face: Face): [u: number, v: number] {
+  switch (face) {
+    case Face.LEFT:
+    case Face.RIGHT: {
+      return [2, 1];
+    }
+    case Face.UP:
+    case Face.DOWN: {
+      return [0, 2];
+    }
+    case Face.BACK:
+    case Face.FRONT: {
+      return [0, 1];
+    }
+  }
+}
+
+// Greedy meshing: merges adjacent faces that point the same way, lie in the same plane and belong to the same kind of block
+// and have the same light into larger rectangles. The textures of the merged faces repeat once per block.
+// Faces only merge if they have the same ambient occlusion, and only along an axis that it doesn't change along,
+// so the merged face's corners still have the right ambient occlusion
+export function mergeFaces(faces: BlockFace[]): BlockFace[] {
+  // group faces by direction and the plane they lie in
+  const planes = new Map<string, BlockFace[]>();
+  for (const face of faces) {
+    const [ua, va] = faceAxes(face.face);
+    const normalAxis = 3 - ua - va;
+    const key = `${face.face},${face.cubeLoc[normalAxis]}`;
+    let plane = planes.get(key);
+    if (plane === undefined) {
+      plane = [];
+      planes.set(key, plane);
+    }
+    plane.push(face);
+  }
+
+  const merged: BlockFace[] = [];
+  for (const plane of planes.values()) {
+    const [ua, va] = faceAxes(plane[0].face);
+    // index the faces by their location in the plane
+    const grid = new Map<string, BlockFace>();
+    for (const face of plane) {
+      grid.set(`${face.cubeLoc[ua]},${face.cubeLoc[va]}`, face);
+    }
+    const used = new Set<BlockFace>();
+    // true if there's an unmerged face at (u, v) that we could merge with
+    const canMerge = (u: number, v: number, { bi, light, ao, height }: BlockFace) => {
+      const face = grid.get(`${u},${v}`);
+      return face !== undefined && face.bi === bi && face.light === light && face.ao === ao && face.height === height && !used.has(face);
+    }
+
+    // go row by row, so each rectangle starts at its smallest corner
+    plane.sort((a, b) => (a.cubeLoc[va] - b.cubeLoc[va]) || (a.cubeLoc[ua] - b.cubeLoc[ua]));
+    for (const face of plane) {
+      if (used.has(face)) {
+        continue;
+      }
+      const u = face.cubeLoc[ua];
+      const v = face.cubeLoc[va];
+
+      const ao = face.ao ?? NO_OCCLUSION;
+      const sameAlongU = aoOf(ao, 0) === aoOf(ao, 1) && aoOf(ao, 2) === aoOf(ao, 3);
+      const sameAlongV = aoOf(ao, 0) === aoOf(ao, 2) && aoOf(ao, 1) === aoOf(ao, 3);
+
+      // grow along u as far as possible, then grow along v while the whole row matches
+      let w = 1;
+      while (sameAlongU && canMerge(u + w, v, face)) {
+        w++;
+      }
+      let h = 1;
+      GROW_V:
+      while (sameAlongV) {
+        for (let k = 0; k < w; k++) {
+          if (!canMerge(u + k, v + h, face)) {
+            break GROW_V;
+          }
+        }
+        h++;
+      }
+
+      for (let dv = 0; dv < h; dv++) {
+        for (let du = 0; du < w; du++) {
+          used.add(grid.get(`${u + du},${v + dv}`)!);
+        }
+      }
+      merged.push({ bi: face.bi, face: face.face, cubeLoc: face.cubeLoc, light: face.light, ao: face.ao, height: face.height, size: [w, h] });
+    }
+  }
+  return merged;
+}
+
+export function createMesh(
+  offset: vec3,
+  info: BlockMeshInfo[],
+  blocks: Uint16Array,
+  leftBlocks: Uint16Array,
+  rightBlocks: Uint16Array,
+  upBlocks: Uint16Array,
+  downBlocks: Uint16Array,
+  backBlocks: Uint16Array,
+  frontBlocks: Uint16Array,
+  // the light of this chunk and its neighbors, in the same order as the blocks
+  light?: { own: Uint8Array, neighbors: ChunkNeighborLight },
+): ChunkMesh {
+  // packed light of a voxel of this chunk, or one just outside it
+  const lightAt = (x: number, y: number, z: number) => {
+    if (light === undefined) {
+      return undefined;
+    }
+    const [left, right, up, down, back, front] = light.neighbors;
+    if (x < 0) { return left[chunkDataIndex(CHUNK_X_SIZE - 1, y, z)]; }
+    if (x >= CHUNK_X_SIZE) { return right[chunkDataIndex(0, y, z)]; }
+    if (y < 0) { return up[chunkDataIndex(x, CHUNK_Y_SIZE - 1, z)]; }
+    if (y >= CHUNK_Y_SIZE) { return down[chunkDataIndex(x, 0, z)]; }
+    if (z < 0) { return back[chunkDataIndex(x, y, CHUNK_Z_SIZE - 1)]; }
+    if (z >= CHUNK_Z_SIZE) { return front[chunkDataIndex(x, y, 0)]; }
+    return light.own[chunkDataIndex(x, y, z)];
+  }
+
+  // true if the voxel of this chunk or of a neighboring chunk is opaque.
+  // Voxels in the chunks diagonal to this one aren't available, so they count as empty
+  const opaqueAt = (x: number, y: number, z: number) => {
+    const outside = +(x < 0 || x >= CHUNK_X_SIZE) + +(y < 0 || y >= CHUNK_Y_SIZE) + +(z < 0 || z >= CHUNK_Z_SIZE);
+    let bi: number;
+    if (outside > 1) { return false; }
+    else if (x < 0) { bi = leftBlocks[chunkDataIndex(CHUNK_X_SIZE - 1, y, z)]; }
+    else if (x >= CHUNK_X_SIZE) { bi = rightBlocks[chunkDataIndex(0, y, z)]; }
+    else if (y < 0) { bi = upBlocks[chunkDataIndex(x, CHUNK_Y_SIZE - 1, z)]; }
+    else if (y >= CHUNK_Y_SIZE) { bi = downBlocks[chunkDataIndex(x, 0, z)]; }
+    else if (z < 0) { bi = backBlocks[chunkDataIndex(x, y, CHUNK_Z_SIZE - 1)]; }
+    else if (z >= CHUNK_Z_SIZE) { bi = frontBlocks[chunkDataIndex(x, y, 0)]; }
+    else { bi = blocks[chunkDataIndex(x, y, z)]; }
+    return info[bi].visible && !info[bi].transparent;
+  }
+
+  // ambient occlusion of the corners of the given face of the block at (x, y, z),
+  // from the voxels around the voxel in front of the face
+  const faceAO = (face: Face, x: number, y: number, z: number) => {
+    const [ua, va] = faceAxes(face);
+    const front = vec3_add([x, y, z], getNormal(face));
+    const opaque = (du: number, dv: number) => {
+      const p: vec3 = [...front];
+      p[ua] += du;
+      p[va] += dv;
+      return opaqueAt(...p);
+    }
+    const corners: [number, number, number, number] = [0, 0, 0, 0];
+    for (let corner = 0; corner < 4; corner++) {
+      const du = corner & 1 ? 1 : -1;
+      const dv = corner & 2 ? 1 : -1;
+      corners[corner] = cornerAO(opaque(du, 0), opaque(0, dv), opaque(du, dv));
+    }
+    return packAO(corners);
+  }
+
+  const lights: EmissiveBlock[] = [];
+  const solid: BlockFace[] = [];
+  const transparent: BlockFace[] = [];
+
+  for (let x = 0; x < CHUNK_X_SIZE; x++) {
+    for (let y = 0; y < CHUNK_Y_SIZE; y++) {
+      for (let z = 0; z < CHUNK_Z_SIZE; z++) {
+        const bi = blocks[chunkDataIndex(x, y, z)];
+        const cubeLoc = [offset[0] + x, offset[1] + y, offset[2] + z] as vec3;
+
+        // block definition of this block
+        const thisblock = info[bi];
+
+        // skip air
+        if (!thisblock.visible) {
+          continue;
+        }
+
+        // fluids with nothing of the same fluid above them have their top lowered to their level
+        let height: number | undefined = undefined;
+        if (thisblock.fluid !== undefined) {
+          const above = y === 0 ? upBlocks[chunkDataIndex(x, CHUNK_Y_SIZE - 1, z)] : blocks[chunkDataIndex(x, y - 1, z)];
+          if (info[above].fluid?.name !== thisblock.fluid.name) {
+            height = fluidHeight(thisblock.fluid.level);
+          }
+        }
+
+        // the array to put the faces into depends on 
+        const dest = thisblock.transparent
+          ? transparent
+          : solid;
+        const facesBefore = dest.length;
+
+        // left face
+        if (
+          x === 0
+            ? shouldRender(thisblock, info[leftBlocks[chunkDataIndex(CHUNK_X_SIZE - 1, y, z)]])
+            : shouldRender(thisblock, info[blocks[chunkDataIndex(x - 1, y, z)]])
+        ) {
+          dest.push({ bi, cubeLoc, face: Face.LEFT, light: lightAt(x - 1, y, z), ao: faceAO(Face.LEFT, x, y, z), height });
+        }
+        // right face
+        if (
+          x === CHUNK_X_SIZE - 1
+            ? shouldRender(thisblock, info[rightBlocks[chunkDataIndex(0, y, z)]])
+            : shouldRender(thisblock, info[blocks[chunkDataIndex(x + 1, y, z)]])
+        ) {
+          dest.push({ bi, cubeLoc, face: Face.RIGHT, light: lightAt(x + 1, y, z), ao: faceAO(Face.RIGHT, x, y, z), height });
+        }
+        // upper face
+        if (
+          y === 0
+            ? shouldRender(thisblock, info[upBlocks[chunkDataIndex(x, CHUNK_Y_SIZE - 1, z)]])
+            : shouldRender(thisblock, info[blocks[chunkDataIndex(x, y - 1, z)]])
+        ) {
+          dest.push({ bi, cubeLoc, face: Face.UP, light: lightAt(x, y - 1, z), ao: faceAO(Face.UP, x, y, z), height });
+        }
+        // lower face
+        if (
+          y === CHUNK_Y_SIZE - 1
+            ? shouldRender(thisblock, info[downBlocks[chunkDataIndex(x, 0, z)]])
+            : shouldRender(thisblock, info[blocks[chunkDataIndex(x, y + 1, z)]])
+        ) {
+          dest.push({ bi, cubeLoc, face: Face.DOWN, light: lightAt(x, y + 1, z), ao: faceAO(Face.DOWN, x, y, z), height });
+        }
+        // back face
+        if (
+          z === 0
+            ? shouldRender(thisblock, info[backBlocks[chunkDataIndex(x, y, CHUNK_Z_SIZE - 1)]])
+            : shouldRender(thisblock, info[blocks[chunkDataIndex(x, y, z - 1)]])
+        ) {
+          dest.push({ bi, cubeLoc, face: Face.BACK, light: lightAt(x, y, z - 1), ao: faceAO(Face.BACK, x, y, z), height });
+        }
+        // front face
+        if (
+          z === CHUNK_Z_SIZE - 1
+            ? shouldRender(thisblock, info[frontBlocks[chunkDataIndex(x, y, 0)]])
+            : shouldRender(thisblock, info[blocks[chunkDataIndex(x, y, z + 1)]])
+        ) {
+          dest.push({ bi, cubeLoc, face: Face.FRONT, light: lightAt(x, y, z + 1), ao: faceAO(Face.FRONT, x, y, z), height });
+        }
+
+        // lights that are completely covered up can't light anything
+        if (thisblock.light && dest.length > facesBefore) {
+          lights.push({ bi, cubeLoc });
+        }
+      }
+    }
+  }
+  return { solid, transparent, lights };
+}
+
+// transform a texture coordinate of a face by the face's rotation and flips
+// w and h are the size of the face in blocks, so the transform is applied to each repetition of the texture
+function transformUV(u: number, v: number, w: number, h: number, { rotation, flipU, flipV }: FaceLayer): [number, number] {
+  if (flipU) {
+    u = w - u;
+  }
+  if (flipV) {
+    v = h - v;
+  }
+  for (let r = 0; r < rotation; r += 90) {
+    [u, v, w, h] = [v, w - u, h, w];
+  }
+  return [u, v];
+}
+
+// the number of floats per vertex written by writeMesh: position (3), normal (3), texture coordinates and layer (3),
+// sky and block light (2), ambient occlusion (1)
+export const VERTEX_FLOATS = 12;
+
+export function writeMesh(faces: BlockFace[], blocks: BlockMeshInfo[]): Float32Array {
+  const data = new Float32Array(faces.length * 6 * VERTEX_FLOATS);
+
+  let i = 0;
+  for (const { bi, face, cubeLoc: [fx, fy, fz], size, light, ao, height } of faces) {
+    // light levels scaled to [0, 1]
+    const packed = light ?? UNLOADED_LIGHT;
+    const lt = [skyLightOf(packed) / MAX_LIGHT_LEVEL, blockLightOf(packed) / MAX_LIGHT_LEVEL];
+
+    // how far the face extends along each axis
+    const [w, h] = size ?? [1, 1];
+    const [ua, va] = faceAxes(face);
+    const ext: vec3 = [1, 1, 1];
+    ext[ua] = w;
+    ext[va] = h;
+    const [ex, ey, ez] = ext;
+
+    // calculate vertexes
+    // remember that y points down, so a lowered top has a bigger y
+    const top = 1 - (height ?? 1);
+    const v000: vec3 = [fx + 0, fy + top, fz + 0];
+    const v100: vec3 = [fx + ex, fy + top, fz + 0];
+    const v001: vec3 = [fx + 0, fy + top, fz + ez];
+    const v101: vec3 = [fx + ex, fy + top, fz + ez];
+    const v010: vec3 = [fx + 0, fy + ey, fz + 0];
+    const v110: vec3 = [fx + ex, fy + ey, fz + 0];
+    const v011: vec3 = [fx + 0, fy + ey, fz + ez];
+    const v111: vec3 = [fx + ex, fy + ey, fz + ez];
+
+    // look up where this face's texture is in the atlas
+    // the texture coordinates run from 0 to the size of the face, and the shader wraps them
+    const faceLayer = blocks[bi].faceLayers[face];
+    const tuv = (u: number, v: number) => [...transformUV(u * w, v * h, w, h, faceLayer), faceLayer.layer];
+
+    // the corners of the face in counterclockwise order as seen from the front, with their texture coordinates
+    let quad: [vec3, number[]][];
+    switch (face) {
+      case Face.LEFT: {
+        quad = [[v000, tuv(1, 0)], [v001, tuv(0, 0)], [v011, tuv(0, 1)], [v010, tuv(1, 1)]];
+        break;
+      }
+      case Face.RIGHT: {
+        quad = [[v100, tuv(0, 0)], [v110, tuv(0, 1)], [v111, tuv(1, 1)], [v101, tuv(1, 0)]];
+        break;
+      }
+      case Face.UP: {
+        quad = [[v000, tuv(1, 0)], [v100, tuv(0, 0)], [v101, tuv(0, 1)], [v001, tuv(1, 1)]];
+        break;
+      }
+      case Face.DOWN: {
+        quad = [[v010, tuv(0, 0)], [v011, tuv(0, 1)], [v111, tuv(1, 1)], [v110, tuv(1, 0)]];
+        break;
+      }
+      case Face.BACK: {
+        quad = [[v000, tuv(0, 0)], [v010, tuv(0, 1)], [v110, tuv(1, 1)], [v100, tuv(1, 0)]];
+        break;
+      }
+      case Face.FRONT: {
+        quad = [[v001, tuv(1, 0)], [v101, tuv(0, 0)], [v111, tuv(0, 1)], [v011, tuv(1, 1)]];
+        break;
+      }
+    }
+
+    // ambient occlusion of each corner of the quad, scaled to [0, 1]
+    const occlusion = quad.map(([pos]) => {
+      const corner = (pos[ua] > v000[ua] ? 1 : 0) + (pos[va] > v000[va] ? 2 : 0);
+      return aoOf(ao ?? NO_OCCLUSION, corner) / MAX_AO_LEVEL;
+    });
+
+    // Split the quad into triangles along the brighter diagonal.
+    // Otherwise the shading of a dark corner spreads along the diagonal, and looks different depending on which corner is dark
+    const order = occlusion[0] + occlusion[2] > occlusion[1] + occlusion[3]
+      ? [0, 1, 2, 0, 2, 3]
+      : [0, 1, 3, 1, 2, 3];
+
+    const normal = getNormal(face);
+    for (const q of order) {
+      const [pos, uv] = quad[q];
+      data.set(pos, i); i += 3; data.set(normal, i); i += 3; data.set(uv, i); i += 3; data.set(lt, i); i += 2; data[i] = occlusion[q]; i += 1;
+    }
+  }
+  return data;
+}
+
+// the blocks of the six chunks adjacent to a chunk, in the order createMesh takes them
+export type ChunkNeighbors = [
+  left: Uint16Array,
+  right: Uint16Array,
+  up: Uint16Array,
+  down: Uint16Array,
+  back: Uint16Array,
+  front: Uint16Array,
+];
+
+// for each face of a chunk (indexed by Face), a bitmask of the faces of the chunk (1 << Face) that can be seen from it
+// through the blocks inside the chunk
+export type ChunkVisibility = number[];
+
+// the light of the neighboring chunks, in the same order as ChunkNeighbors
+export type ChunkNeighborLight = [
+  left: Uint8Array,
+  right: Uint8Array,
+  up: Uint8Array,
+  down: Uint8Array,
+  back: Uint8Array,
+  front: Uint8Array,
+];
+
+// the vertex data of a chunk, ready to be uploaded
+export type ChunkMeshData = {
+  solid: Float32Array,
+  transparent: Float32Array,
+  lights: EmissiveBlock[],
+  visibility: ChunkVisibility,
+}
+
+// a chunk that you can see straight through, or whose visibility we don't know yet
+export const FULL_VISIBILITY: ChunkVisibility = Array(6).fill((1 << 6) - 1);
+
+// Builds the visibility graph of a chunk: flood fills each region of connected blocks that you can see through,
+// and records that every face of the chunk the region touches can see every other face it touches
+export function computeVisibility(info: BlockMeshInfo[], blocks: Uint16Array): ChunkVisibility {
+  const visibility: ChunkVisibility = Array(6).fill(0);
+  const seeThrough = (i: number) => !info[blocks[i]].visible || info[blocks[i]].transparent;
+
+  const visited = new Uint8Array(blocks.length);
+  const stack: vec3[] = [];
+  for (let x = 0; x < CHUNK_X_SIZE; x++) {
+    for (let y = 0; y < CHUNK_Y_SIZE; y++) {
+      for (let z = 0; z < CHUNK_Z_SIZE; z++) {
+        const start = chunkDataIndex(x, y, z);
+        if (visited[start] || !seeThrough(start)) {
+          continue;
+        }
+
+        // faces of the chunk this region touches
+        let touched = 0;
+        visited[start] = 1;
+        stack.push([x, y, z]);
+        while (stack.length > 0) {
+          const [bx, by, bz] = stack.pop()!;
+          if (bx === 0) { touched |= 1 << Face.LEFT; }
+          if (bx === CHUNK_X_SIZE - 1) { touched |= 1 << Face.RIGHT; }
+          if (by === 0) { touched |= 1 << Face.UP; }
+          if (by === CHUNK_Y_SIZE - 1) { touched |= 1 << Face.DOWN; }
+          if (bz === 0) { touched |= 1 << Face.BACK; }
+          if (bz === CHUNK_Z_SIZE - 1) { touched |= 1 << Face.FRONT; }
+
+          const adjacent: vec3[] = [
+            [bx - 1, by, bz],
+            [bx + 1, by, bz],
+            [bx, by - 1, bz],
+            [bx, by + 1, bz],
+            [bx, by, bz - 1],
+            [bx, by, bz + 1],
+          ];
+          for (const [ax, ay, az] of adjacent) {
+            if (ax < 0 || ax >= CHUNK_X_SIZE || ay < 0 || ay >= CHUNK_Y_SIZE || az < 0 || az >= CHUNK_Z_SIZE) {
+              continue;
+            }
+            const i = chunkDataIndex(ax, ay, az);
+            if (!visited[i] && seeThrough(i)) {
+              visited[i] = 1;
+              stack.push([ax, ay, az]);
+            }
+          }
+        }
+
+        for (let face = 0; face < 6; face++) {
+          if (touched & (1 << face)) {
+            visibility[face] |= touched;
+          }
+        }
+      }
+    }
+  }
+  return visibility;
+}
+
+// the number of floats written per face by writeMesh
+const FACE_FLOATS = 6 * VERTEX_FLOATS;
+
+// returns a copy of the vertex data from writeMesh with the faces reordered so the farthest from eye comes first.
+// Transparent faces have to be drawn in this order to blend correctly
+export function sortFacesBackToFront(data: Float32Array, eye: vec3): Float32Array {
+  const nFaces = data.length / FACE_FLOATS;
+  const distances = new Float32Array(nFaces);
+  for (let f = 0; f < nFaces; f++) {
+    // the center of the face is the average of its vertexes
+    let cx = 0, cy = 0, cz = 0;
+    for (let v = 0; v < 6; v++) {
+      const i = f * FACE_FLOATS + v * VERTEX_FLOATS;
+      cx += data[i];
+      cy += data[i + 1];
+      cz += data[i + 2];
+    }
+    distances[f] = Math.hypot(cx / 6 - eye[0], cy / 6 - eye[1], cz / 6 - eye[2]);
+  }
+
+  const order = Array.from({ length: nFaces }, (_, f) => f).sort((a, b) => distances[b] - distances[a]);
+  const sorted = new Float32Array(data.length);
+  for (let f = 0; f < nFaces; f++) {
+    sorted.set(data.subarray(order[f] * FACE_FLOATS, (order[f] + 1) * FACE_FLOATS), f * FACE_FLOATS);
+  }
+  return sorted;
+}
+
+// mesh the chunk at the given chunk coordinates and write out the vertex data
+// if greedy is set, faces are merged with mergeFaces, otherwise every face gets its own quad
+export function meshChunk(
+  worldChunkCoords: vec3,
+  info: BlockMeshInfo[],
+  blocks: Uint16Array,
+  neighbors: ChunkNeighbors,
+  light: Uint8Array,
+  neighborLight: ChunkNeighborLight,
+  greedy: boolean,
+): ChunkMeshData {
+  const offset: vec3 = [worldChunkCoords[0] * CHUNK_X_SIZE, worldChunkCoords[1] * CHUNK_Y_SIZE, worldChunkCoords[2] * CHUNK_Z_SIZE];
+  const { solid, transparent, lights } = createMesh(offset, info, blocks, ...neighbors, { own: light, neighbors: neighborLight });
+  return {
+    solid: writeMesh(greedy ? mergeFaces(solid) : solid, info),
+    transparent: writeMesh(greedy ? mergeFaces(transparent) : transparent, info),
+    lights,
+    visibility: computeVisibility(info, blocks),
+  };
+}
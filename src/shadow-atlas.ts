@@ -0,0 +1,113 @@
+import { assert } from './utils';
+
+export type ShadowSettings = {
+  // the most shadow maps that can exist at once. Lights past this don't cast shadows
+  capacity: number,
+  // width and height of each side of a shadow map
+  resolution: number,
+}
+
+export const DEFAULT_SHADOW_SETTINGS: ShadowSettings = {
+  capacity: 32,
+  resolution: 256,
+};
+
+// each shadow map is for a point light, so it has one layer for each direction the light shines in (see World.createLightData)
+export const LAYERS_PER_SHADOW_MAP = 6;
+
+// how many shadow maps the atlas starts with, it doubles from there as needed
+const INITIAL_MAPS = 4;
+
+// A texture array of shadow maps that grows on demand, up to a capacity.
+// Shadow map i takes up layers i * LAYERS_PER_SHADOW_MAP to (i + 1) * LAYERS_PER_SHADOW_MAP - 1.
+// Growing reallocates the texture, which throws away every shadow map in it.
+// generation changes whenever that happens, so users can tell that they need to render their shadow maps again
+export class ShadowMapAtlas {
+  private readonly gl: WebGL2RenderingContext;
+  private settings: ShadowSettings;
+
+  // the depth texture array. Replaced when the atlas grows
+  texture: WebGLTexture;
+  // number of shadow maps in texture
+  private maps = 0;
+  private readonly freeMaps: number[] = [];
+  // a single framebuffer that gets attached to whichever layer we're rendering
+  private readonly framebuffer: WebGLFramebuffer;
+
+  generation = 0;
+
+  constructor(gl: WebGL2RenderingContext, settings: ShadowSettings) {
+    this.gl = gl;
+    this.settings = { ...settings };
+    this.texture = gl.createTexture()!;
+    this.framebuffer = gl.createFramebuffer()!;
+    this.reallocate(0);
+  }
+
+  getSettings = () => ({ ...this.settings });
+
+  // Change the capacity and resolution. Every shadow map is freed, so they all have to be allocated again
+  configure = (settings: ShadowSettings) => {
+    assert(Number.isInteger(settings.capacity) && settings.capacity >= 0, `shadow capacity must be an integer >= 0, found ${settings.capacity}`);
+    assert(Number.isInteger(settings.resolution) && settings.resolution > 0, `shadow resolution must be a positive integer, found ${settings.resolution}`);
+    this.settings = { ...settings };
+    this.maps = 0;
+    this.freeMaps.length = 0;
+    this.reallocate(0);
+  }
+
+  // Returns a free shadow map, growing the atlas if there are none.
+  // Returns undefined if the atlas is at capacity
+  allocate = (): number | undefined => {
+    if (this.freeMaps.length === 0 && this.maps < this.settings.capacity) {
+      this.reallocate(Math.min(Math.max(this.maps * 2, INITIAL_MAPS), this.settings.capacity));
+    }
+    return this.freeMaps.pop();
+  }
+
+  release = (map: number) => {
+    this.freeMaps.push(map);
+  }
+
+  // set up rendering into one direction of the shadow map
+  bindLayer = (map: number, direction: number) => {
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffer);
+    this.gl.framebufferTextureLayer(
+      this.gl.FRAMEBUFFER,       // target
+      this.gl.DEPTH_ATTACHMENT,  // attachment point
+      this.texture,              // texture
+      0,                         // mip level
+      map * LAYERS_PER_SHADOW_MAP + direction, // layer
+    );
+    this.gl.viewport(0, 0, this.settings.resolution, this.settings.resolution);
+  }
+
+  // replace the texture with one that has room for the given number of shadow maps. The maps we already handed out stay allocated
+  private reallocate = (maps: number) => {
+    const gl = this.gl;
+    gl.deleteTexture(this.texture);
+    this.texture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, this.texture);
+    gl.texImage3D(
+      gl.TEXTURE_2D_ARRAY,      // target
+      0,                    // mip level
+      gl.DEPTH_COMPONENT16, // internal format
+      this.settings.resolution,   // width
+      this.settings.resolution,   // height
+      // the shader needs a texture to sample, even if there are no shadow maps
+      Math.max(maps, 1) * LAYERS_PER_SHADOW_MAP,   // depth
+      0,                  // border
+      gl.DEPTH_COMPONENT, // format
+      gl.UNSIGNED_SHORT,           // type
+      null,              // data
+    );
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+
+    for (let map = maps - 1; map >= this.maps; map--) {
+      this.freeMaps.push(map);
+    }
+    this.maps = maps;
+    this.generation++;
+  }
+}
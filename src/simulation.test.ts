@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { vec3 } from './utils';
+import { FixedBlockWorld } from './collision';
+import { Entity, PhysicsComponent } from './entity-component-system';
+import { Simulation, STEP_SECONDS } from './simulation';
+
+const SIZE: vec3 = [16, 16, 16];
+const STEPS = 120;
+
+// an entity with physics, dropped from above a stone floor at y = 15 and pushed sideways
+function createSimulation() {
+  const blocks = new Uint16Array(SIZE[0] * SIZE[1] * SIZE[2]);
+  for (let x = 0; x < SIZE[0]; x++) {
+    for (let z = 0; z < SIZE[2]; z++) {
+      blocks[x * SIZE[1] * SIZE[2] + 15 * SIZE[2] + z] = 1;
+    }
+  }
+  const physics = new PhysicsComponent(new FixedBlockWorld(SIZE, blocks));
+  physics.enablePhysics();
+  physics.applyImpulse([2, 0, 1]);
+  const entity = new Entity([physics], [0, -1, 0], [-1, 0, 0], [4, 8, 4]);
+  return { simulation: new Simulation([entity]), entity };
+}
+
+// advance the simulation in frames of the given length until it has run STEPS steps
+function runFrames(frameSeconds: number) {
+  const { simulation, entity } = createSimulation();
+  while (simulation.getSteps() < STEPS) {
+    simulation.advance(frameSeconds);
+  }
+  return { steps: simulation.getSteps(), pos: entity.pos };
+}
+
+describe("Simulation", () => {
+  it("ends up in the same place at any frame rate", () => {
+    const { simulation, entity } = createSimulation();
+    simulation.step(STEPS);
+    // it landed on the floor and slid to a stop
+    expect(entity.pos[1]).toBeCloseTo(15 - 1.5);
+    expect(entity.pos[0]).toBeGreaterThan(4);
+
+    for (const fps of [20, 30, 60, 144]) {
+      const result = runFrames(1 / fps);
+      expect(result.steps).toBe(STEPS);
+      expect(result.pos).toEqual(entity.pos);
+    }
+  });
+
+  it("only catches up so far after a long frame", () => {
+    const { simulation } = createSimulation();
+    simulation.advance(10);
+    expect(simulation.getSteps()).toBeLessThan(1 / STEP_SECONDS);
+  });
+});
@@ -0,0 +1,71 @@
+import { Entity } from './entity-component-system';
+
+// length of a simulation step, in seconds
+export const STEP_SECONDS = 1 / 60;
+
+// if a frame takes longer than this (for example, when the tab was in the background),
+// the simulation only catches up this far, instead of running lots of steps at once
+const MAX_FRAME_SECONDS = 0.25;
+
+// anything else that moves forward with the simulation, like the world's clock
+export interface Clock {
+  advanceTime: (seconds: number) => void;
+}
+
+// Runs the entities in steps of a fixed length, so they behave the same at any frame rate.
+// Doesn't need a browser, so it can be stepped by hand (see step)
+export class Simulation {
+  readonly entities: Entity[];
+  private readonly clocks: Clock[];
+
+  // real time that has passed but hasn't been simulated yet
+  private accumulator = 0;
+  // how many steps have been run
+  private steps = 0;
+
+  constructor(entities: Entity[], clocks: Clock[] = []) {
+    this.entities = entities;
+    this.clocks = clocks;
+  }
+
+  getSteps = () => this.steps;
+
+  // entities and clocks added or removed during a step take part from the next step
+  addEntity = (entity: Entity) => {
+    this.entities.push(entity);
+  }
+
+  removeEntity = (entity: Entity) => {
+    const i = this.entities.indexOf(entity);
+    if (i !== -1) {
+      this.entities.splice(i, 1);
+    }
+  }
+
+  addClock = (clock: Clock) => {
+    this.clocks.push(clock);
+  }
+
+  // run exactly n steps
+  step = (n = 1) => {
+    for (let i = 0; i < n; i++) {
+      for (const entity of [...this.entities]) {
+        entity.update(STEP_SECONDS);
+      }
+      for (const clock of [...this.clocks]) {
+        clock.advanceTime(STEP_SECONDS);
+      }
+      this.steps++;
+    }
+  }
+
+  // Run as many steps as fit into the time that passed since the last frame.
+  // Returns how far we are into the next step, from 0 to 1, for interpolating between the last two steps
+  advance = (seconds: number) => {
+    this.accumulator += Math.min(seconds, MAX_FRAME_SECONDS);
+    const n = Math.floor(this.accumulator / STEP_SECONDS);
+    this.accumulator -= n * STEP_SECONDS;
+    this.step(n);
+    return this.accumulator / STEP_SECONDS;
+  }
+}
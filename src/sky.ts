@@ -0,0 +1,115 @@
+import { vec3, vec3_norm, vec3_scale, clamp } from './utils';
+
+// this file describes how the sky and the sun change over the course of a day
+
+// Time of day goes from 0 to 1 and wraps around:
+// 0 is midnight, 0.25 is sunrise, 0.5 is noon and 0.75 is sunset
+export const SUNRISE = 0.25;
+export const NOON = 0.5;
+export const SUNSET = 0.75;
+
+// how many seconds a full day lasts
+export const DEFAULT_DAY_LENGTH = 600;
+
+// the world starts in the morning
+export const DEFAULT_TIME_OF_DAY = 0.3;
+
+export type SkyState = {
+  // direction from the world towards the sun during the day, or towards the moon at night
+  lightDir: vec3,
+  // color times intensity of the sunlight or moonlight
+  lightColor: vec3,
+  // light that reaches everything the sky can be seen from
+  ambient: vec3,
+  // color of the sky straight up
+  zenithColor: vec3,
+  // color of the sky at the horizon, which distant things fade into
+  horizonColor: vec3,
+}
+
+// how the sky looks at a given height of the sun above the horizon, from -1 (straight down) to 1 (straight up).
+// Below the horizon, lightColor is the moonlight.
+// The light fades out at the horizon, so there's no jump when the moon takes over from the sun
+const KEYFRAMES: { elevation: number, lightColor: vec3, ambient: vec3, zenithColor: vec3, horizonColor: vec3 }[] = [
+  { elevation: -1.0, lightColor: [0.10, 0.12, 0.18], ambient: [0.04, 0.05, 0.09], zenithColor: [0.0, 0.0, 0.02], horizonColor: [0.02, 0.03, 0.07] },
+  { elevation: -0.15, lightColor: [0.10, 0.12, 0.18], ambient: [0.04, 0.05, 0.09], zenithColor: [0.0, 0.0, 0.02], horizonColor: [0.02, 0.03, 0.07] },
+  { elevation: 0.0, lightColor: [0.0, 0.0, 0.0], ambient: [0.22, 0.16, 0.15], zenithColor: [0.25, 0.3, 0.5], horizonColor: [0.85, 0.45, 0.25] },
+  { elevation: 0.1, lightColor: [0.7, 0.4, 0.2], ambient: [0.32, 0.3, 0.32], zenithColor: [0.3, 0.45, 0.75], horizonColor: [0.65, 0.65, 0.75] },
+  { elevation: 0.3, lightColor: [0.9, 0.85, 0.75], ambient: [0.4, 0.45, 0.5], zenithColor: [0.25, 0.45, 0.9], horizonColor: [0.6, 0.75, 0.95] },
+  { elevation: 1.0, lightColor: [1.0, 0.97, 0.9], ambient: [0.45, 0.5, 0.55], zenithColor: [0.2, 0.45, 0.95], horizonColor: [0.6, 0.78, 1.0] },
+];
+
+const lerp = (a: vec3, b: vec3, t: number): vec3 => [
+  a[0] + (b[0] - a[0]) * t,
+  a[1] + (b[1] - a[1]) * t,
+  a[2] + (b[2] - a[2]) * t,
+];
+
+// direction from the world towards the sun.
+// The sun rises in +x and sets in -x, and is tilted a little towards +z so it's never straight overhead.
+// remember that y points down
+export function sunDirection(timeOfDay: number): vec3 {
+  const angle = 2 * Math.PI * (timeOfDay - SUNRISE);
+  return vec3_norm([Math.cos(angle), -Math.sin(angle), 0.3]);
+}
+
+export function skyAt(timeOfDay: number): SkyState {
+  const sunDir = sunDirection(timeOfDay);
+  const elevation = clamp(-sunDir[1], -1, 1);
+
+  let i = 1;
+  while (i < KEYFRAMES.length - 1 && KEYFRAMES[i].elevation < elevation) {
+    i++;
+  }
+  const prev = KEYFRAMES[i - 1];
+  const next = KEYFRAMES[i];
+  const t = clamp((elevation - prev.elevation) / (next.elevation - prev.elevation), 0, 1);
+
+  return {
+    // the moon is always opposite the sun
+    lightDir: elevation >= 0 ? sunDir : vec3_scale(sunDir, -1),
+    lightColor: lerp(prev.lightColor, next.lightColor, t),
+    ambient: lerp(prev.ambient, next.ambient, t),
+    zenithColor: lerp(prev.zenithColor, next.zenithColor, t),
+    horizonColor: lerp(prev.horizonColor, next.horizonColor, t),
+  };
+}
+
+// how the sky and the fog between the camera and the world look
+export type AtmosphereSettings = {
+  // the fog starts at this fraction of the render distance
+  fogStart: number,
+  // how quickly the fog thickens past where it starts, per block.
+  // However thin it is, the fog always closes in by the edge of the render distance, so the end of the world can't be seen
+  fogDensity: number,
+  // color of the fog. By default, it's the color of the horizon
+  fogColor?: vec3,
+  // colors of the sky, replacing the ones that change with the time of day
+  skyColors?: { zenith: vec3, horizon: vec3 },
+  // whether the sun and the moon are drawn in the sky
+  showSunAndMoon: boolean,
+}
+
+export const DEFAULT_ATMOSPHERE: AtmosphereSettings = {
+  fogStart: 0.5,
+  fogDensity: 0.04,
+  showSunAndMoon: true,
+};
+
+// for when the camera is in water
+export const UNDERWATER_ATMOSPHERE: AtmosphereSettings = {
+  fogStart: 0,
+  fogDensity: 0.15,
+  fogColor: [0.05, 0.2, 0.35],
+  skyColors: { zenith: [0.05, 0.2, 0.35], horizon: [0.05, 0.2, 0.35] },
+  showSunAndMoon: false,
+};
+
+// for when the camera is deep underground
+export const CAVE_ATMOSPHERE: AtmosphereSettings = {
+  fogStart: 0.2,
+  fogDensity: 0.08,
+  fogColor: [0.01, 0.01, 0.01],
+  skyColors: { zenith: [0.0, 0.0, 0.0], horizon: [0.01, 0.01, 0.01] },
+  showSunAndMoon: false,
+};
@@ -0,0 +1,230 @@
+import { vec3, hashInts, makeRng, mod } from './utils';
+import { BlockManager } from './block';
+import { CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE, chunkDataIndex } from './chunk';
+
+// this file contains multi-block features that are placed on top of the base terrain
+
+export type StructureBlock = {
+  // offset from the anchor. Unlike world coordinates, offset[1] points up.
+  // The anchor is the surface block the structure stands on, so offset[1] = 1 is the first block above ground
+  offset: vec3,
+  block: string,
+}
+
+// a small template of blocks. Structures only ever replace air
+export type Structure = {
+  name: string,
+  blocks: StructureBlock[],
+}
+
+// where and how often a structure gets placed
+export type FeatureRule = {
+  structure: Structure,
+  // names of the biomes the structure can be placed in
+  biomes: string[],
+  // number of random columns tried in each chunk
+  attempts: number,
+  // probability that an attempt places the structure
+  chance: number,
+}
+
+function makeTree(): Structure {
+  const blocks: StructureBlock[] = [];
+  for (let up = 1; up <= 4; up++) {
+    blocks.push({ offset: [0, up, 0], block: "log" });
+  }
+  // two wide layers of leaves around the top of the trunk, then a small cap
+  for (let up = 3; up <= 6; up++) {
+    const r = up <= 4 ? 2 : 1;
+    for (let dx = -r; dx <= r; dx++) {
+      for (let dz = -r; dz <= r; dz++) {
+        const corner = Math.abs(dx) === r && Math.abs(dz) === r;
+        const trunk = dx === 0 && dz === 0 && up <= 4;
+        if (!corner && !trunk) {
+          blocks.push({ offset: [dx, up, dz], block: "leaves" });
+        }
+      }
+    }
+  }
+  return { name: "tree", blocks };
+}
+
+function makeLampPost(): Structure {
+  return {
+    name: "lamp post",
+    blocks: [
+      { offset: [0, 1, 0], block: "stone" },
+      { offset: [0, 2, 0], block: "stone" },
+      { offset: [0, 3, 0], block: "stone" },
+      { offset: [0, 4, 0], block: "lamp" },
+    ],
+  };
+}
+
+function makeGlassDome(radius: number): Structure {
+  const blocks: StructureBlock[] = [];
+  for (let dx = -radius; dx <= radius; dx++) {
+    for (let up = 0; up <= radius; up++) {
+      for (let dz = -radius; dz <= radius; dz++) {
+        const d = Math.hypot(dx, up, dz);
+        if (d > radius - 0.5 && d <= radius + 0.5) {
+          blocks.push({ offset: [dx, up + 1, dz], block: "glass" });
+        }
+      }
+    }
+  }
+  // something to light up the inside
+  blocks.push({ offset: [0, 1, 0], block: "lamp" });
+  return { name: "glass dome", blocks };
+}
+
+function makeRuin(): Structure {
+  // height of the crumbling wall at each position around a 5x5 square
+  const wallHeights = [3, 2, 2, 1, 0, 1, 3, 3, 2, 1, 1, 0, 2, 3, 2, 1];
+  const blocks: StructureBlock[] = [];
+  let i = 0;
+  for (let dx = -2; dx <= 2; dx++) {
+    for (let dz = -2; dz <= 2; dz++) {
+      if (Math.abs(dx) === 2 || Math.abs(dz) === 2) {
+        const height = wallHeights[i++];
+        for (let up = 1; up <= height; up++) {
+          blocks.push({ offset: [dx, up, dz], block: "stone" });
+        }
+      }
+    }
+  }
+  return { name: "ruin", blocks };
+}
+
+export const TREE = makeTree();
+export const LAMP_POST = makeLampPost();
+export const GLASS_DOME = makeGlassDome(3);
+export const RUIN = makeRuin();
+
+export const DEFAULT_FEATURES: FeatureRule[] = [
+  { structure: TREE, biomes: ["plains", "hills"], attempts: 4, chance: 0.5 },
+  { structure: LAMP_POST, biomes: ["plains"], attempts: 1, chance: 0.15 },
+  { structure: GLASS_DOME, biomes: ["barrens"], attempts: 1, chance: 0.1 },
+  { structure: RUIN, biomes: ["barrens", "mountains"], attempts: 1, chance: 0.1 },
+];
+
+// where the ground is in a column, as found by the base terrain
+export type Surface = {
+  // y coordinate of the surface block (remember that y points down)
+  y: number,
+  biome: string,
+}
+
+type BlockWrite = {
+  index: number,
+  block: number,
+}
+
+// how many origin chunks we remember the planned writes of
+const MAX_PLANNED_ORIGINS = 512;
+
+// Places structures on generated chunks.
+// Each structure belongs to the chunk its anchor is in (its origin chunk), but its blocks may land in
+// neighboring chunks. So planning an origin chunk produces a queue of pending writes keyed by the chunk they land in,
+// and decorating a chunk applies the pending writes addressed to it from every origin around it.
+// Planning only depends on the seed and the origin, so structures come out whole no matter which chunk loads first.
+// Structures must be smaller than a chunk so their writes stay within the neighboring chunks.
+export class FeaturePlacer {
+  private readonly seed: number;
+  private readonly rules: FeatureRule[];
+  private readonly surfaceAt: (wx: number, wz: number) => Surface;
+  // block index of each block of each rule's structure
+  private readonly ruleBlocks: number[][];
+
+  // origin chunk -> (destination chunk -> writes)
+  private readonly pendingWrites = new Map<string, Map<string, BlockWrite[]>>();
+
+  constructor(seed: number, blockManager: BlockManager, rules: FeatureRule[], surfaceAt: (wx: number, wz: number) => Surface) {
+    this.seed = seed;
+    this.rules = rules;
+    this.surfaceAt = surfaceAt;
+    this.ruleBlocks = rules.map(r => r.structure.blocks.map(b => blockManager.getIndex(b.block)));
+  }
+
+  private plan = (origin: vec3) => {
+    const originKey = JSON.stringify(origin);
+    const planned = this.pendingWrites.get(originKey);
+    if (planned !== undefined) {
+      // move to the back, so the least recently used plans get evicted first
+      this.pendingWrites.delete(originKey);
+      this.pendingWrites.set(originKey, planned);
+      return planned;
+    }
+
+    const writes = new Map<string, BlockWrite[]>();
+    const rng = makeRng(hashInts(this.seed, ...origin));
+    for (let r = 0; r < this.rules.length; r++) {
+      const rule = this.rules[r];
+      for (let attempt = 0; attempt < rule.attempts; attempt++) {
+        // always draw the same numbers so every attempt is independent of whether the previous one succeeded
+        const x = Math.floor(rng() * CHUNK_X_SIZE);
+        const z = Math.floor(rng() * CHUNK_Z_SIZE);
+        const roll = rng();
+
+        const wx = origin[0] * CHUNK_X_SIZE + x;
+        const wz = origin[2] * CHUNK_Z_SIZE + z;
+        const surface = this.surfaceAt(wx, wz);
+        // the anchor has to be in the origin chunk, otherwise another chunk owns this column's surface
+        if (Math.floor(surface.y / CHUNK_Y_SIZE) !== origin[1]) {
+          continue;
+        }
+        if (roll >= rule.chance || !rule.biomes.includes(surface.biome)) {
+          continue;
+        }
+
+        const blocks = rule.structure.blocks;
+        for (let b = 0; b < blocks.length; b++) {
+          const [dx, up, dz] = blocks[b].offset;
+          const w: vec3 = [wx + dx, surface.y - up, wz + dz];
+          const dest = JSON.stringify([
+            Math.floor(w[0] / CHUNK_X_SIZE),
+            Math.floor(w[1] / CHUNK_Y_SIZE),
+            Math.floor(w[2] / CHUNK_Z_SIZE),
+          ]);
+          let destWrites = writes.get(dest);
+          if (destWrites === undefined) {
+            destWrites = [];
+            writes.set(dest, destWrites);
+          }
+          destWrites.push({
+            index: chunkDataIndex(mod(w[0], CHUNK_X_SIZE), mod(w[1], CHUNK_Y_SIZE), mod(w[2], CHUNK_Z_SIZE)),
+            block: this.ruleBlocks[r][b],
+          });
+        }
+      }
+    }
+
+    this.pendingWrites.set(originKey, writes);
+    if (this.pendingWrites.size > MAX_PLANNED_ORIGINS) {
+      // it's fine to forget a plan, since we can always make it again
+      this.pendingWrites.delete(this.pendingWrites.keys().next().value);
+    }
+    return writes;
+  }
+
+  // place structures into the base terrain of the chunk
+  decorate = (worldChunkCoords: vec3, blocks: Uint16Array) => {
+    const key = JSON.stringify(worldChunkCoords);
+    // go through origins in a fixed order, so overlapping structures always resolve the same way
+    for (let x = -1; x <= 1; x++) {
+      for (let y = -1; y <= 1; y++) {
+        for (let z = -1; z <= 1; z++) {
+          const writes = this.plan([worldChunkCoords[0] + x, worldChunkCoords[1] + y, worldChunkCoords[2] + z]).get(key);
+          if (writes === undefined) {
+            continue;
+          }
+          for (const { index, block } of writes) {
+            if (blocks[index] === 0) {
+              blocks[index] = block;
+            }
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { vec3, vec3_scale, mat4, mat4_look_at, mat4_mul, mat4_orthographic, mat4_vec_mul, vec4_extend_vec3 } from './utils';
+
+// width and height of the sun's shadow map
+const SUN_SHADOW_RESOLUTION = 2048;
+
+// the shadow map covers this many blocks around the camera in every direction
+const SUN_SHADOW_RADIUS = 48;
+
+// blocks up to this far towards the sun from the camera can cast shadows
+const SUN_SHADOW_DEPTH = 128;
+
+// A single orthographic shadow map for the sun (or the moon) that follows the camera around.
+// Past its edges, everything counts as lit by the sun
+export class SunShadowMap {
+  private readonly gl: WebGL2RenderingContext;
+
+  readonly texture: WebGLTexture;
+  private readonly framebuffer: WebGLFramebuffer;
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+
+    this.texture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.texImage2D(
+      gl.TEXTURE_2D,      // target
+      0,                    // mip level
+      gl.DEPTH_COMPONENT24, // internal format
+      SUN_SHADOW_RESOLUTION,   // width
+      SUN_SHADOW_RESOLUTION,   // height
+      0,                  // border
+      gl.DEPTH_COMPONENT, // format
+      gl.UNSIGNED_INT,           // type
+      null,              // data
+    );
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+
+    this.framebuffer = gl.createFramebuffer()!;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, gl.TEXTURE_2D, this.texture, 0);
+
+    // until it's drawn, nothing is in shadow
+    gl.clear(gl.DEPTH_BUFFER_BIT);
+  }
+
+  // the matrix of a shadow map around center, for light coming from lightDir.
+  // The center is snapped to whole texels, so the edges of the shadows don't flicker as the camera moves
+  computeMvp = (center: vec3, lightDir: vec3): mat4 => {
+    // the light looks in the opposite direction from lightDir
+    const view = mat4_look_at([0, 0, 0], vec3_scale(lightDir, -1), [0, -1, 0]);
+    const [x, y, z] = mat4_vec_mul(view, vec4_extend_vec3(center, 1));
+
+    const texel = 2 * SUN_SHADOW_RADIUS / SUN_SHADOW_RESOLUTION;
+    const snappedX = Math.round(x / texel) * texel;
+    const snappedY = Math.round(y / texel) * texel;
+
+    // the view looks down -z, so the center is -z away
+    const projection = mat4_orthographic(
+      snappedX - SUN_SHADOW_RADIUS,
+      snappedX + SUN_SHADOW_RADIUS,
+      snappedY - SUN_SHADOW_RADIUS,
+      snappedY + SUN_SHADOW_RADIUS,
+      -z - SUN_SHADOW_DEPTH,
+      -z + SUN_SHADOW_RADIUS,
+    );
+    return mat4_mul(projection, view);
+  }
+
+  // set up rendering into the shadow map
+  bind = () => {
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffer);
+    this.gl.viewport(0, 0, SUN_SHADOW_RESOLUTION, SUN_SHADOW_RESOLUTION);
+  }
+}
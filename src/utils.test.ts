@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { aabb, aabb_in_frustum, frustum_planes, mat4_look_at, mat4_mul, mat4_perspective, RADIANS, vec3 } from './utils';
+
+// a camera at the origin looking down -z with a 90 degree field of view, so at distance d the view is 2d wide and high
+const proj = mat4_perspective(RADIANS(90), 1, 0.1, 100);
+const view = mat4_look_at([0, 0, 0], [0, 0, -1], [0, 1, 0]);
+const planes = frustum_planes(mat4_mul(proj, view));
+
+// a box with sides of the given length around center
+const boxAround = ([x, y, z]: vec3, size = 1): aabb => ({
+  min: [x - size / 2, y - size / 2, z - size / 2],
+  max: [x + size / 2, y + size / 2, z + size / 2],
+});
+
+describe("aabb_in_frustum", () => {
+  it("keeps boxes inside the frustum", () => {
+    expect(aabb_in_frustum(boxAround([0, 0, -10]), planes)).toBe(true);
+    expect(aabb_in_frustum(boxAround([8, -8, -10]), planes)).toBe(true);
+    expect(aabb_in_frustum(boxAround([0, 0, -99]), planes)).toBe(true);
+  });
+
+  it("culls boxes outside the frustum", () => {
+    // behind the camera
+    expect(aabb_in_frustum(boxAround([0, 0, 10]), planes)).toBe(false);
+    // off to each side
+    expect(aabb_in_frustum(boxAround([-12, 0, -10]), planes)).toBe(false);
+    expect(aabb_in_frustum(boxAround([12, 0, -10]), planes)).toBe(false);
+    expect(aabb_in_frustum(boxAround([0, 12, -10]), planes)).toBe(false);
+    expect(aabb_in_frustum(boxAround([0, -12, -10]), planes)).toBe(false);
+    // past the far plane
+    expect(aabb_in_frustum(boxAround([0, 0, -110]), planes)).toBe(false);
+  });
+
+  it("keeps boxes straddling a plane", () => {
+    // across the right side
+    expect(aabb_in_frustum(boxAround([10, 0, -10], 2), planes)).toBe(true);
+    // across the near plane, around the camera
+    expect(aabb_in_frustum(boxAround([0, 0, 0], 2), planes)).toBe(true);
+    // across the far plane
+    expect(aabb_in_frustum(boxAround([0, 0, -100], 2), planes)).toBe(true);
+    // much bigger than the frustum
+    expect(aabb_in_frustum(boxAround([0, 0, 0], 1000), planes)).toBe(true);
+  });
+});
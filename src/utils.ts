@@ -62,6 +62,16 @@ export function mat4_perspective(fov_y: number, aspect: number, near: number, fa
   ];
 }
 
+export function mat4_orthographic(left: number, right: number, bottom: number, top: number, near: number, far: number): mat4 {
+  // orthographic(): Box-shaped view volume for projection.
+  return [
+    [2 / (right - left), 0, 0, -(right + left) / (right - left)],
+    [0, 2 / (top - bottom), 0, -(top + bottom) / (top - bottom)],
+    [0, 0, -2 / (far - near), -(far + near) / (far - near)],
+    [0, 0, 0, 1]
+  ];
+}
+
 // from tiny graphics
 export function mat4_look_at(eye: vec3, at: vec3, up: vec3) {
   // look_at():  Produce a traditional graphics camera "lookat" matrix.
@@ -121,6 +131,38 @@ export function mat4_mul(a: mat4, b: mat4): mat4 {
   ];
 }
 
+// inverse of a matrix, by dividing the adjugate by the determinant. Throws if the matrix can't be inverted
+export function mat4_inverse(m: mat4): mat4 {
+  const [[a00, a01, a02, a03], [a10, a11, a12, a13], [a20, a21, a22, a23], [a30, a31, a32, a33]] = m;
+
+  // determinants of the 2x2 submatrices of the top two and bottom two rows
+  const b00 = a00 * a11 - a01 * a10;
+  const b01 = a00 * a12 - a02 * a10;
+  const b02 = a00 * a13 - a03 * a10;
+  const b03 = a01 * a12 - a02 * a11;
+  const b04 = a01 * a13 - a03 * a11;
+  const b05 = a02 * a13 - a03 * a12;
+  const b06 = a20 * a31 - a21 * a30;
+  const b07 = a20 * a32 - a22 * a30;
+  const b08 = a20 * a33 - a23 * a30;
+  const b09 = a21 * a32 - a22 * a31;
+  const b10 = a21 * a33 - a23 * a31;
+  const b11 = a22 * a33 - a23 * a32;
+
+  const det = b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+  if (det === 0) {
+    throw "matrix is not invertible";
+  }
+  const d = 1 / det;
+
+  return [
+    [(a11 * b11 - a12 * b10 + a13 * b09) * d, (a02 * b10 - a01 * b11 - a03 * b09) * d, (a31 * b05 - a32 * b04 + a33 * b03) * d, (a22 * b04 - a21 * b05 - a23 * b03) * d],
+    [(a12 * b08 - a10 * b11 - a13 * b07) * d, (a00 * b11 - a02 * b08 + a03 * b07) * d, (a32 * b02 - a30 * b05 - a33 * b01) * d, (a20 * b05 - a22 * b02 + a23 * b01) * d],
+    [(a10 * b10 - a11 * b08 + a13 * b06) * d, (a01 * b08 - a00 * b10 - a03 * b06) * d, (a30 * b04 - a31 * b02 + a33 * b00) * d, (a21 * b02 - a20 * b04 - a23 * b00) * d],
+    [(a11 * b07 - a10 * b09 - a12 * b06) * d, (a00 * b09 - a01 * b07 + a02 * b06) * d, (a31 * b01 - a30 * b03 - a32 * b00) * d, (a20 * b03 - a21 * b01 + a22 * b00) * d],
+  ];
+}
+
 export function vec4_extend_vec3(xyz: vec3, w: number): vec4 {
   return [xyz[0], xyz[1], xyz[2], w]
 }
@@ -163,6 +205,43 @@ export function mat4_to_uniform(m: mat4) {
   return [...c0, ...c1, ...c2, ...c3];
 }
 
+// axis aligned bounding box
+export type aabb = { min: vec3, max: vec3 };
+
+// a plane [a, b, c, d], where a point p is on the inside if a*p.x + b*p.y + c*p.z + d >= 0
+export type plane = vec4;
+
+// extracts the 6 planes of the view frustum (left, right, bottom, top, near, far) from a model view projection matrix.
+// A point is in the frustum if it is on the inside of every plane
+export function frustum_planes(mvp: mat4): plane[] {
+  const [r0, r1, r2, r3] = mvp;
+  const add = (a: vec4, b: vec4): plane => [a[0] + b[0], a[1] + b[1], a[2] + b[2], a[3] + b[3]];
+  const sub = (a: vec4, b: vec4): plane => [a[0] - b[0], a[1] - b[1], a[2] - b[2], a[3] - b[3]];
+  return [
+    add(r3, r0),
+    sub(r3, r0),
+    add(r3, r1),
+    sub(r3, r1),
+    add(r3, r2),
+    sub(r3, r2),
+  ];
+}
+
+// true if any part of the box might be in the frustum.
+// Conservative: boxes near the frustum's corners can be reported as visible when they aren't
+export function aabb_in_frustum({ min, max }: aabb, planes: plane[]): boolean {
+  for (const [a, b, c, d] of planes) {
+    // test the corner of the box that is farthest along the plane's normal
+    const x = a >= 0 ? max[0] : min[0];
+    const y = b >= 0 ? max[1] : min[1];
+    const z = c >= 0 ? max[2] : min[2];
+    if (a * x + b * y + c * z + d < 0) {
+      return false;
+    }
+  }
+  return true;
+}
+
 export function clamp(v: number, min: number, max: number) {
   return Math.min(Math.max(v, min), max);
 }
@@ -195,3 +274,24 @@ export function convertColor(color: number): vec3 {
 export function zip<T, U>(a: T[], b: U[]): [T|undefined, U|undefined][] {
   return Array(Math.max(b.length, a.length)).fill(undefined).map((_, i) => [a[i], b[i]])
 }
+
+// hashes a list of integers into a 32 bit unsigned integer (used to seed random number generators)
+export function hashInts(...xs: number[]): number {
+  let h = 0x811c9dc5;
+  for (const x of xs) {
+    h = Math.imul(h ^ (x | 0), 0x01000193);
+    h ^= h >>> 15;
+  }
+  return h >>> 0;
+}
+
+// deterministic pseudo random number generator (mulberry32), returns numbers in [0, 1)
+export function makeRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { decodeWorld, encodeWorld, WorldSave } from './world-format';
+
+const SAVE: WorldSave = {
+  seed: 1234.5678,
+  chunkSize: [16, 16, 16],
+  palette: ["air", "stone", "red lamp", "wässer"],
+  chunks: [
+    // all air is a single run
+    [[0, 0, 0], new Uint16Array(16 * 16 * 16)],
+    // a different block every few blocks makes lots of short runs
+    [[-1, 2, -3], Uint16Array.from({ length: 16 * 16 * 16 }, (_, i) => Math.floor(i / 3) % 4)],
+  ],
+};
+
+describe("world format", () => {
+  it("decodes what it encodes", () => {
+    expect(decodeWorld(encodeWorld(SAVE))).toEqual(SAVE);
+  });
+
+  it("splits runs that don't fit in a u16", () => {
+    const big: WorldSave = { ...SAVE, chunkSize: [64, 64, 32], chunks: [[[5, 6, 7], new Uint16Array(64 * 64 * 32).fill(1)]] };
+    expect(decodeWorld(encodeWorld(big))).toEqual(big);
+  });
+
+  it("rejects truncated files", () => {
+    const data = encodeWorld(SAVE);
+    // cut off in the header, the palette and the last run
+    for (const length of [10, 30, data.byteLength - 1]) {
+      expect(() => decodeWorld(data.slice(0, length))).toThrow(/truncated/);
+    }
+  });
+
+  it("rejects files that aren't world files", () => {
+    const data = new Uint8Array(encodeWorld(SAVE));
+    data.set(new TextEncoder().encode("PNG!"), 0);
+    expect(() => decodeWorld(data.buffer)).toThrow(/not a world file/);
+  });
+
+  it("rejects other versions", () => {
+    const data = encodeWorld(SAVE);
+    new DataView(data).setUint16(4, 2, true);
+    expect(() => decodeWorld(data)).toThrow(/version 2/);
+  });
+});
@@ -0,0 +1,154 @@
+import { vec3, assert } from './utils';
+
+// Binary format for saving a whole world to a single file.
+// All numbers are little endian.
+//
+// header:
+//   magic:          4 bytes, ascii "VXWD"
+//   version:        u16, currently WORLD_FORMAT_VERSION
+//   seed:           f64, the seed the world was generated with
+//   chunk size:     3 x u16, the x, y and z size of a chunk in blocks
+// palette:
+//   count:          u16, number of entries
+//   entries:        for each entry, a u16 byte length followed by the utf-8 encoded BlockDef name.
+//                   a block's value in the chunk data is its index into the palette,
+//                   so the save doesn't depend on the order of the BlockManager defs
+// chunks:
+//   count:          u32, number of chunks
+//   entries:        for each chunk
+//     coord:        3 x i32, chunk coordinates
+//     run count:    u32
+//     runs:         for each run, a u16 length followed by a u16 palette index.
+//                   expanding the runs in order gives the chunk's Uint16Array
+
+const WORLD_FORMAT_MAGIC = "VXWD";
+export const WORLD_FORMAT_VERSION = 1;
+
+export type WorldSave = {
+  seed: number,
+  chunkSize: vec3,
+  // block names, indexed by the values in the chunk data
+  palette: string[],
+  chunks: [coord: vec3, blocks: Uint16Array][],
+}
+
+// run length encodes blocks into [length, value] pairs
+function encodeRuns(blocks: Uint16Array): [number, number][] {
+  const runs: [number, number][] = [];
+  for (let i = 0; i < blocks.length; i++) {
+    const last = runs[runs.length - 1];
+    // lengths are stored as u16, so we have to start a new run before overflowing
+    if (last !== undefined && last[1] === blocks[i] && last[0] < 0xFFFF) {
+      last[0]++;
+    } else {
+      runs.push([1, blocks[i]]);
+    }
+  }
+  return runs;
+}
+
+export function encodeWorld(save: WorldSave): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const encodedNames = save.palette.map(name => encoder.encode(name));
+  const encodedChunks = save.chunks.map(([coord, blocks]) => [coord, encodeRuns(blocks)] as const);
+
+  // compute the size of the file up front
+  let size = 4 + 2 + 8 + 3 * 2;
+  size += 2 + encodedNames.reduce((acc, name) => acc + 2 + name.length, 0);
+  size += 4 + encodedChunks.reduce((acc, [_, runs]) => acc + 3 * 4 + 4 + runs.length * 4, 0);
+
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let i = 0;
+
+  // header
+  bytes.set(encoder.encode(WORLD_FORMAT_MAGIC), i); i += 4;
+  view.setUint16(i, WORLD_FORMAT_VERSION, true); i += 2;
+  view.setFloat64(i, save.seed, true); i += 8;
+  for (const s of save.chunkSize) {
+    view.setUint16(i, s, true); i += 2;
+  }
+
+  // palette
+  view.setUint16(i, encodedNames.length, true); i += 2;
+  for (const name of encodedNames) {
+    view.setUint16(i, name.length, true); i += 2;
+    bytes.set(name, i); i += name.length;
+  }
+
+  // chunks
+  view.setUint32(i, encodedChunks.length, true); i += 4;
+  for (const [coord, runs] of encodedChunks) {
+    for (const c of coord) {
+      view.setInt32(i, c, true); i += 4;
+    }
+    view.setUint32(i, runs.length, true); i += 4;
+    for (const [length, value] of runs) {
+      view.setUint16(i, length, true); i += 2;
+      view.setUint16(i, value, true); i += 2;
+    }
+  }
+
+  return buffer;
+}
+
+export function decodeWorld(buffer: ArrayBuffer): WorldSave {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  let i = 0;
+
+  // make sure we never read past the end of the file
+  const need = (n: number) => assert(i + n <= buffer.byteLength, `world file is truncated at byte ${i}`);
+
+  // header
+  need(4 + 2 + 8 + 3 * 2);
+  const magic = decoder.decode(bytes.subarray(i, i + 4)); i += 4;
+  assert(magic === WORLD_FORMAT_MAGIC, `not a world file (expected magic "${WORLD_FORMAT_MAGIC}", found "${magic}")`);
+  const version = view.getUint16(i, true); i += 2;
+  assert(version === WORLD_FORMAT_VERSION, `unsupported world file version ${version}, expected ${WORLD_FORMAT_VERSION}`);
+  const seed = view.getFloat64(i, true); i += 8;
+  const chunkSize: vec3 = [0, 0, 0];
+  for (let c = 0; c < 3; c++) {
+    chunkSize[c] = view.getUint16(i, true); i += 2;
+  }
+  const chunkVolume = chunkSize[0] * chunkSize[1] * chunkSize[2];
+
+  // palette
+  need(2);
+  const paletteLength = view.getUint16(i, true); i += 2;
+  const palette: string[] = [];
+  for (let p = 0; p < paletteLength; p++) {
+    need(2);
+    const nameLength = view.getUint16(i, true); i += 2;
+    need(nameLength);
+    palette.push(decoder.decode(bytes.subarray(i, i + nameLength))); i += nameLength;
+  }
+
+  // chunks
+  need(4);
+  const nChunks = view.getUint32(i, true); i += 4;
+  const chunks: [vec3, Uint16Array][] = [];
+  for (let c = 0; c < nChunks; c++) {
+    need(3 * 4 + 4);
+    const coord: vec3 = [view.getInt32(i, true), view.getInt32(i + 4, true), view.getInt32(i + 8, true)]; i += 12;
+    const nRuns = view.getUint32(i, true); i += 4;
+    need(nRuns * 4);
+
+    const blocks = new Uint16Array(chunkVolume);
+    let offset = 0;
+    for (let r = 0; r < nRuns; r++) {
+      const length = view.getUint16(i, true); i += 2;
+      const value = view.getUint16(i, true); i += 2;
+      assert(value < palette.length, `chunk ${JSON.stringify(coord)} uses palette index ${value}, but the palette only has ${palette.length} entries`);
+      assert(offset + length <= chunkVolume, `chunk ${JSON.stringify(coord)} has more than ${chunkVolume} blocks`);
+      blocks.fill(value, offset, offset + length);
+      offset += length;
+    }
+    assert(offset === chunkVolume, `chunk ${JSON.stringify(coord)} has ${offset} blocks, expected ${chunkVolume}`);
+    chunks.push([coord, blocks]);
+  }
+
+  return { seed, chunkSize, palette, chunks };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { aabb, vec3 } from './utils';
+import { BlockDef, BlockManager } from './block';
+import { CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE, chunkDataIndex } from './chunk';
+import { FixedBlockWorld, moveBox } from './collision';
+import { FlatWorldGenerator } from './world-generator';
+
+const block = (name: string): BlockDef => ({ name, pointable: name !== "air", transparent: name === "air", lightLevel: 0, gravity: false });
+
+// the blocks of DEFAULT_FLAT_LAYERS, without textures like the ones the workers get
+const blockManager = new BlockManager(16, ["air", "grass", "soil", "stone"].map(block));
+const [GRASS, SOIL, STONE] = [1, 2, 3];
+
+// the chunk at the origin of the default flat world, which has its ground at y = 2
+function flatChunk() {
+  const blocks = new FlatWorldGenerator(blockManager).generate([0, 0, 0]);
+  return new FixedBlockWorld([CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE], blocks);
+}
+
+// a player sized box with its feet at the given coords. Remember that y points down
+function feetAt([x, y, z]: vec3): aabb {
+  return { min: [x - 0.3, y - 1.8, z - 0.3], max: [x + 0.3, y, z + 0.3] };
+}
+
+describe("FlatWorldGenerator", () => {
+  it("generates the same layers everywhere", () => {
+    const generator = new FlatWorldGenerator(blockManager);
+    const blocks = generator.generate([0, 0, 0]);
+    for (const [x, z] of [[0, 0], [7, 3], [15, 15]]) {
+      expect([0, 1, 2, 3, 5, 6, 15].map(y => blocks[chunkDataIndex(x, y, z)])).toEqual([0, 0, GRASS, SOIL, SOIL, STONE, STONE]);
+    }
+    expect(generator.generate([0, 0, 0])).toEqual(blocks);
+    expect(generator.generate([-3, 0, 5])).toEqual(blocks);
+    // the stone goes on forever
+    expect(generator.generate([0, 1, 0]).every(bi => bi === STONE)).toBe(true);
+    expect(generator.generate([0, -1, 0]).every(bi => bi === 0)).toBe(true);
+  });
+
+  it("stops falling boxes at the ground", () => {
+    const world = flatChunk();
+    const result = moveBox(world, feetAt([8, 0.5, 8]), [0, 50, 0]);
+    expect(result.moved[1]).toBeCloseTo(1.5);
+    expect(result.normals).toEqual([[0, -1, 0]]);
+  });
+
+  it("lets boxes walk along the ground", () => {
+    const world = flatChunk();
+    const result = moveBox(world, feetAt([2, 2, 8]), [10, 0, 0], 1);
+    expect(result.moved).toEqual([10, 0, 0]);
+    expect(result.steppedUp).toBe(false);
+  });
+});
@@ -0,0 +1,297 @@
+import { makeNoise2D, makeNoise3D } from 'open-simplex-noise';
+import { vec3, clamp, assert } from './utils';
+import { BlockManager } from './block';
+import { CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE, chunkDataIndex } from './chunk';
+import { FeatureRule, FeaturePlacer, DEFAULT_FEATURES } from './structures';
+
+// something that can produce the initial blocks of a chunk
+export interface WorldGenerator {
+  // the seed that this generator was created with (saved along with the world)
+  readonly seed: number;
+  // generates the blocks of the chunk at the given chunk coordinates
+  // must always return the same blocks for the same coordinates
+  generate: (worldChunkCoords: vec3) => Uint16Array;
+  // returns a generator with the same settings, but a different seed
+  withSeed: (seed: number) => WorldGenerator;
+  // describes how to recreate this generator with createWorldGenerator
+  readonly config: WorldGeneratorConfig;
+}
+
+// plain data describing a generator, so that it can be sent to a worker and recreated there
+export type WorldGeneratorConfig =
+  | { kind: "void" }
+  | { kind: "flat", layers: FlatLayer[], groundY: number }
+  | { kind: "noise", seed: number, biomes: Biome[], features: FeatureRule[] };
+
+export function createWorldGenerator(config: WorldGeneratorConfig, blockManager: BlockManager): WorldGenerator {
+  switch (config.kind) {
+    case "void": {
+      return new VoidWorldGenerator();
+    }
+    case "flat": {
+      return new FlatWorldGenerator(blockManager, config.layers, config.groundY);
+    }
+    case "noise": {
+      return new NoiseWorldGenerator(config.seed, blockManager, config.biomes, config.features);
+    }
+  }
+}
+
+// generates nothing but air
+export class VoidWorldGenerator implements WorldGenerator {
+  readonly seed = 0;
+  readonly config: WorldGeneratorConfig = { kind: "void" };
+
+  generate = (worldChunkCoords: vec3) => new Uint16Array(CHUNK_X_SIZE * CHUNK_Y_SIZE * CHUNK_Z_SIZE);
+
+  // the seed doesn't affect anything
+  withSeed = (seed: number) => this;
+}
+
+export type FlatLayer = {
+  block: string,
+  // how many blocks thick the layer is. May be Infinity
+  thickness: number,
+}
+
+export const DEFAULT_FLAT_LAYERS: FlatLayer[] = [
+  { block: "grass", thickness: 1 },
+  { block: "soil", thickness: 3 },
+  { block: "stone", thickness: Infinity },
+];
+
+// a superflat world made of horizontal layers, with air above them and below the last one
+export class FlatWorldGenerator implements WorldGenerator {
+  readonly seed = 0;
+  readonly config: WorldGeneratorConfig;
+
+  private readonly blockManager: BlockManager;
+  private readonly layers: FlatLayer[];
+  // y coordinate of the top layer (remember that y points down)
+  private readonly groundY: number;
+  // the block at each y offset below groundY
+  private readonly column: number[];
+
+  constructor(blockManager: BlockManager, layers: FlatLayer[] = DEFAULT_FLAT_LAYERS, groundY = 2) {
+    this.blockManager = blockManager;
+    this.layers = layers;
+    this.groundY = groundY;
+    this.config = { kind: "flat", layers, groundY };
+
+    // precompute the column down to the start of an infinite layer, if there is one
+    this.column = [];
+    for (const { block, thickness } of layers) {
+      assert(thickness >= 0, `flat layer "${block}" has negative thickness`);
+      const bi = blockManager.getIndex(block);
+      if (thickness === Infinity) {
+        this.column.push(bi);
+        break;
+      }
+      for (let i = 0; i < thickness; i++) {
+        this.column.push(bi);
+      }
+    }
+  }
+
+  private blockAt = (wy: number) => {
+    const depth = wy - this.groundY;
+    if (depth < 0 || this.column.length === 0) {
+      return 0;
+    }
+    if (depth < this.column.length) {
+      return this.column[depth];
+    }
+    // below the precomputed column: either the infinite layer continues, or it's air
+    const last = this.layers[this.layers.length - 1];
+    return last.thickness === Infinity ? this.column[this.column.length - 1] : 0;
+  }
+
+  generate = (worldChunkCoords: vec3) => {
+    const blocks = new Uint16Array(CHUNK_X_SIZE * CHUNK_Y_SIZE * CHUNK_Z_SIZE);
+    for (let y = 0; y < CHUNK_Y_SIZE; y++) {
+      const bi = this.blockAt(worldChunkCoords[1] * CHUNK_Y_SIZE + y);
+      if (bi === 0) {
+        continue;
+      }
+      for (let x = 0; x < CHUNK_X_SIZE; x++) {
+        for (let z = 0; z < CHUNK_Z_SIZE; z++) {
+          blocks[chunkDataIndex(x, y, z)] = bi;
+        }
+      }
+    }
+    return blocks;
+  }
+
+  // the seed doesn't affect anything
+  withSeed = (seed: number) => this;
+}
+
+export type Biome = {
+  name: string,
+  // the climate this biome is centered on. Both range from -1 to 1
+  temperature: number,
+  humidity: number,
+  // height of the ground (in blocks above y = 0), and how much hills vary around it
+  baseHeight: number,
+  heightVariation: number,
+  // the block on the surface, and the block under it down to fillerDepth
+  // everything below that is stone
+  topBlock: string,
+  fillerBlock: string,
+  fillerDepth: number,
+}
+
+export const DEFAULT_BIOMES: Biome[] = [
+  { name: "plains", temperature: 0.2, humidity: 0.2, baseHeight: -4, heightVariation: 3, topBlock: "grass", fillerBlock: "soil", fillerDepth: 3 },
+  { name: "hills", temperature: -0.3, humidity: 0.5, baseHeight: 2, heightVariation: 12, topBlock: "grass", fillerBlock: "soil", fillerDepth: 2 },
+  { name: "barrens", temperature: 0.7, humidity: -0.6, baseHeight: -6, heightVariation: 2, topBlock: "soil", fillerBlock: "soil", fillerDepth: 5 },
+  { name: "mountains", temperature: -0.7, humidity: -0.4, baseHeight: 10, heightVariation: 24, topBlock: "stone", fillerBlock: "stone", fillerDepth: 0 },
+];
+
+// how many blocks one unit of noise spans
+const CLIMATE_SCALE = 256.0;
+const HEIGHT_SCALES = [64.0, 24.0, 8.0];
+const HEIGHT_WEIGHTS = [0.6, 0.3, 0.1];
+const CAVE_SCALE = 20.0;
+
+// caves are carved wherever the cave noise is above this
+const CAVE_THRESHOLD = 0.4;
+// caves don't come closer to the surface than this, so the ground isn't full of holes
+const CAVE_MIN_DEPTH = 4;
+
+// Layered terrain: a heightmap made from a few octaves of 2D noise,
+// biomes picked by temperature/humidity noise, and caves carved out with 3D noise.
+// Afterwards, structures are placed on the surface.
+// Note that y points down, so the surface of a column of height h is at y = -h
+export class NoiseWorldGenerator implements WorldGenerator {
+  readonly seed: number;
+  readonly config: WorldGeneratorConfig;
+
+  private readonly blockManager: BlockManager;
+  private readonly biomes: Biome[];
+  private readonly biomeBlocks: { top: number, filler: number }[];
+  private readonly stone: number;
+
+  private readonly temperatureNoise: (x: number, y: number) => number;
+  private readonly humidityNoise: (x: number, y: number) => number;
+  private readonly heightNoises: ((x: number, y: number) => number)[];
+  private readonly caveNoise: (x: number, y: number, z: number) => number;
+
+  private readonly features: FeatureRule[];
+  private readonly featurePlacer: FeaturePlacer;
+
+  constructor(seed: number, blockManager: BlockManager, biomes: Biome[] = DEFAULT_BIOMES, features: FeatureRule[] = DEFAULT_FEATURES) {
+    this.seed = seed;
+    this.blockManager = blockManager;
+    this.biomes = biomes;
+    this.features = features;
+    this.config = { kind: "noise", seed, biomes, features };
+    this.biomeBlocks = biomes.map(b => ({
+      top: blockManager.getIndex(b.topBlock),
+      filler: blockManager.getIndex(b.fillerBlock),
+    }));
+    this.stone = blockManager.getIndex("stone");
+
+    // each noise function gets its own seed so they aren't correlated
+    this.temperatureNoise = makeNoise2D(seed);
+    this.humidityNoise = makeNoise2D(seed + 1);
+    this.heightNoises = HEIGHT_SCALES.map((_, i) => makeNoise2D(seed + 2 + i));
+    this.caveNoise = makeNoise3D(seed + 2 + HEIGHT_SCALES.length);
+
+    this.featurePlacer = new FeaturePlacer(seed, blockManager, features, (wx, wz) => {
+      const { height, biome } = this.column(wx, wz);
+      return { y: -height, biome: this.biomes[biome].name };
+    });
+  }
+
+  // weight of each biome at this climate. Closer biomes get more weight, and the weights sum to 1
+  private biomeWeights = (temperature: number, humidity: number) => {
+    const weights = this.biomes.map(b => {
+      const d = Math.hypot(b.temperature - temperature, b.humidity - humidity);
+      return 1 / Math.pow(d + 0.05, 4);
+    });
+    const total = weights.reduce((a, b) => a + b, 0);
+    return weights.map(w => w / total);
+  }
+
+  // returns the height of the column, and which biome it's in
+  private column = (wx: number, wz: number) => {
+    const temperature = clamp(this.temperatureNoise(wx / CLIMATE_SCALE, wz / CLIMATE_SCALE), -1, 1);
+    const humidity = clamp(this.humidityNoise(wx / CLIMATE_SCALE, wz / CLIMATE_SCALE), -1, 1);
+
+    // blend the height parameters of nearby biomes so there aren't cliffs at biome borders
+    const weights = this.biomeWeights(temperature, humidity);
+    let baseHeight = 0;
+    let heightVariation = 0;
+    let biome = 0;
+    for (let i = 0; i < this.biomes.length; i++) {
+      baseHeight += weights[i] * this.biomes[i].baseHeight;
+      heightVariation += weights[i] * this.biomes[i].heightVariation;
+      if (weights[i] > weights[biome]) {
+        biome = i;
+      }
+    }
+
+    let heightNoise = 0;
+    for (let i = 0; i < this.heightNoises.length; i++) {
+      heightNoise += HEIGHT_WEIGHTS[i] * this.heightNoises[i](wx / HEIGHT_SCALES[i], wz / HEIGHT_SCALES[i]);
+    }
+
+    return {
+      height: Math.floor(baseHeight + heightVariation * heightNoise),
+      biome,
+    };
+  }
+
+  generate = (worldChunkCoords: vec3) => {
+    // generate chunk, we need to give it the block coordinate to generate at
+    const chunkOffset = [
+      worldChunkCoords[0] * CHUNK_X_SIZE,
+      worldChunkCoords[1] * CHUNK_Y_SIZE,
+      worldChunkCoords[2] * CHUNK_Z_SIZE
+    ];
+
+    const blocks = new Uint16Array(CHUNK_X_SIZE * CHUNK_Y_SIZE * CHUNK_Z_SIZE);
+
+    for (let x = 0; x < CHUNK_X_SIZE; x++) {
+      for (let z = 0; z < CHUNK_Z_SIZE; z++) {
+        const wx = x + chunkOffset[0];
+        const wz = z + chunkOffset[2];
+        const { height, biome } = this.column(wx, wz);
+        const { top, filler } = this.biomeBlocks[biome];
+        const fillerDepth = this.biomes[biome].fillerDepth;
+
+        for (let y = 0; y < CHUNK_Y_SIZE; y++) {
+          const wy = y + chunkOffset[1];
+          // how far below the surface this block is (negative means above ground)
+          const depth = wy + height;
+          if (depth < 0) {
+            continue; // air
+          }
+
+          // carve caves
+          if (depth >= CAVE_MIN_DEPTH && this.caveNoise(wx / CAVE_SCALE, wy / CAVE_SCALE, wz / CAVE_SCALE) > CAVE_THRESHOLD) {
+            continue;
+          }
+
+          let block: number;
+          if (depth === 0) {
+            block = top;
+          } else if (depth <= fillerDepth) {
+            block = filler;
+          } else {
+            block = this.stone;
+          }
+          blocks[chunkDataIndex(x, y, z)] = block;
+        }
+      }
+    }
+
+    // decoration pass
+    this.featurePlacer.decorate(worldChunkCoords, blocks);
+
+    return blocks;
+  }
+
+  withSeed = (seed: number) => new NoiseWorldGenerator(seed, this.blockManager, this.biomes, this.features);
+}
@@ -1,33 +1,39 @@
-import { makeNoise3D } from 'open-simplex-noise';
-import { vec3, vec3_add, vec3_sub, vec3_dot, assert, mod, mat4_perspective, RADIANS, mat4_look_at, mat4_mul, mat4_to_uniform, mat4, mat4_transpose, vec3_length } from './utils';
-import { BlockDef, BlockManager, Face, getNormal } from './block';
+import { vec3, vec3_add, vec3_sub, vec3_dot, assert, mod, mat4_perspective, RADIANS, mat4_look_at, mat4_mul, mat4_to_uniform, mat4, mat4_transpose, mat4_inverse, vec3_length, vec3_scale, aabb, plane, frustum_planes, aabb_in_frustum } from './utils';
+import { BlockManager, BlockLight, DEFAULT_BLOCK_LIGHT, Face, getNormal, blockAndNeighbors } from './block';
 import { createProgram, createShader } from './webgl';
 import { Camera } from './camera';
-import { zip } from './utils';
+import { ChunkStore } from './chunk-store';
+import { encodeWorld, decodeWorld } from './world-format';
+import { CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE, chunkDataIndex, chunkAabb } from './chunk';
+import { WorldGenerator } from './world-generator';
+import { LightEngine, UNLOADED_LIGHT } from './light';
+import { ShadowMapAtlas, ShadowSettings, DEFAULT_SHADOW_SETTINGS } from './shadow-atlas';
+import { SunShadowMap } from './sun-shadow';
+import { DEFAULT_DAY_LENGTH, DEFAULT_TIME_OF_DAY, SkyState, skyAt, sunDirection, AtmosphereSettings, DEFAULT_ATMOSPHERE } from './sky';
+import { cellsToFlow, flowStep, fluidHeight } from './fluid';
+import { EmissiveBlock, ChunkNeighbors, ChunkNeighborLight, VERTEX_FLOATS, ChunkVisibility, FULL_VISIBILITY, writeMesh, sortFacesBackToFront } from './mesh';
+import { ChunkJobRunner, createChunkJobRunner } from './chunk-jobs';
 
 
 // We assign each step a cost.
 // we stop doing work after the cost exceeds 1
-const CHUNK_GEN_COST = 1;
-const CHUNK_MESH_COST = 1;
+// (generation and meshing happen in workers, so they don't count)
 const CHUNK_MKGRAPHICS_COST = 1;
 const CHUNK_RENDERLIGHT_COST = 1;
 const CHUNK_LIGHTINDEX_COST = 1;
 
-const CHUNK_X_SIZE = 16;
-const CHUNK_Y_SIZE = 16;
-const CHUNK_Z_SIZE = 16;
 
+// render distance, in chunks. Chunks within this horizontal distance of the player get loaded
+const DEFAULT_RENDER_DISTANCE = 4;
+const MIN_RENDER_DISTANCE = 1;
+const MAX_RENDER_DISTANCE = 16;
 
-// if a loaded chunk is farther than the player than this, we unload it
-const MAX_RENDER_RADIUS_X = 2;
-const MAX_RENDER_RADIUS_Y = 2;
-const MAX_RENDER_RADIUS_Z = 2;
+// loaded chunks are only unloaded once they're this many chunks past the render distance,
+// so walking back and forth over a chunk border doesn't keep loading and unloading the same chunks
+const UNLOAD_MARGIN = 1;
 
-// if an unloaded chunk is closer than this, then we load it
-const MIN_RENDER_RADIUS_X = 1;
-const MIN_RENDER_RADIUS_Y = 1;
-const MIN_RENDER_RADIUS_Z = 1;
+// the world is much wider than it is tall, so we don't load as far up and down
+const verticalRenderRadius = (renderDistance: number) => Math.ceil(renderDistance / 2);
 
 
 type Graphics = {
@@ -37,27 +43,108 @@ type Graphics = {
 }
 
 type Chunk = {
+  // the space the chunk covers, used to skip drawing chunks that are out of view
+  aabb: aabb,
+  // result of looking this chunk up in the chunk store
+  // blocks is undefined if the chunk was never saved and must be generated
+  stored?: { done: boolean, blocks?: Uint16Array },
+  // identifies the in-flight job that generates or lights the blocks. When it finishes, the result is dropped unless this is still the same job
+  loadJob?: {},
   blocks?: Uint16Array,
-  mesh?: { stale: boolean, solid: BlockFace[], transparent: BlockFace[], lights: BlockFace[] }
-  graphics?: { stale: boolean, solid: Graphics, transparent: Graphics }
-  ownLights?: { stale: boolean, lightData: { matLoc: [vec3, mat4], index: number }[] }
+  // packed sky and block light of each voxel (see light.ts). Set together with blocks
+  light?: Uint8Array,
+  // set when the blocks have been edited since they were last saved, meaning we must save them on unload
+  dirty?: boolean,
+  // counts the edits to the blocks, so a save can tell if the chunk was edited again while it was in flight
+  edits?: number,
+  // identifies the in-flight mesh job. When it finishes, the result is dropped unless this is still the same job
+  meshJob?: {},
+  mesh?: { stale: boolean, solid: Float32Array, transparent: Float32Array, lights: EmissiveBlock[], visibility: ChunkVisibility }
+  graphics?: {
+    stale: boolean,
+    solid: Graphics,
+    transparent: Graphics,
+    // the vertex data of the transparent faces, and where the camera was when we last sorted them
+    transparentData: Float32Array,
+    transparentSortedFrom?: vec3,
+  }
+  // the lights of the emissive blocks in this chunk, keyed by the block's coordinates
+  ownLights?: { stale: boolean, lightData: Map<string, { matLoc: ShadowLightData, index: number }> }
   completeLighting?: { stale: boolean, data: ChunkLightingGPUData }
 }
 
+// how many chunks the last call to render drew, and how many it skipped
+export type RenderStats = {
+  drawn: number,
+  // outside the view frustum
+  culled: number,
+  // inside the view frustum, but hidden behind other chunks
+  occluded: number,
+}
+
+// where a light is, the matrices of the 6 directions of its shadow map (in the order of LIGHT_DIRECTIONS), and what it looks like
+type ShadowLightData = [loc: vec3, mvps: mat4[], light: BlockLight];
+
+// the directions that a point light's shadow map looks in, with the up vector of each.
+// The fragment shader picks the direction by the largest component of the vector from the light, so the order matters
+const LIGHT_DIRECTIONS: [dir: vec3, up: vec3][] = [
+  [[+1, 0, 0], [0, -1, 0]],
+  [[-1, 0, 0], [0, -1, 0]],
+  [[0, +1, 0], [0, 0, 1]],
+  [[0, -1, 0], [0, 0, 1]],
+  [[0, 0, +1], [0, -1, 0]],
+  [[0, 0, -1], [0, -1, 0]],
+];
+
 type ChunkLightingGPUData = {
   // 1xN texture,
   // r channel = index,
   lightIndexesTex: WebGLTexture,
 }
 
-const SHADOWMAP_SIZE = 512;
-
-const N_LIGHTS = 1024;
+// transparent faces in a chunk are resorted once the camera moves this far from where they were last sorted
+const TRANSPARENT_RESORT_DISTANCE = 1;
+
+// pixels per light in lightDataTexArr
+const LIGHT_DATA_WIDTH = 2 + 4 * 6;
+
+// the number of lights we have room for in lightDataTexArr. Each only takes a few floats
+const N_LIGHTS = 4096;
+
+// how many shadow maps we draw per update at most. Each one is 6 renders, one per direction
+const SHADOW_RENDERS_PER_UPDATE = 2;
+
+// the sun's shadow map is redrawn once the camera moves this far from where it was drawn
+const SUN_SHADOW_REDRAW_DISTANCE = 4;
+// or once the sun has moved this far across the sky (as the cosine of the angle)
+const SUN_SHADOW_REDRAW_COS_ANGLE = Math.cos(RADIANS(0.5));
+
+// fluids flow one block this often, in seconds
+const FLUID_TICK_SECONDS = 0.25;
+
+// the most blocks that are checked for flowing fluid per tick. The rest wait for the next tick
+const MAX_FLUID_CELLS_PER_TICK = 4096;
+
+// a light's shadow map. Lights without one still light the scene, they just don't cast shadows
+type ShadowLight = {
+  // chunk the light belongs to
+  coord: vec3,
+  data: ShadowLightData,
+  // shadow map in the atlas, if the light got one
+  map?: number,
+  // the atlas generation that the shadow map was drawn in, if it was drawn.
+  // The shadow map must be redrawn if this doesn't match the atlas's generation
+  renderedGeneration?: number,
+  // set when the light or the blocks around it changed since the shadow map was drawn
+  stale: boolean,
+}
 
 const vs = `#version 300 es
 precision highp int;
 precision highp float;
 uniform mat4 u_mvpMat;
+// moves the mesh, for blocks drawn outside the grid. Zero for chunks
+uniform vec3 u_offset;
 
 in vec3 a_position;
 out vec3 v_position;
@@ -68,12 +155,20 @@ out vec3 v_tuv;
 in vec3 a_normal;
 out vec3 v_normal;
 
+in vec2 a_light;
+out vec2 v_light;
+
+in float a_ao;
+out float v_ao;
+
 void main() {
    v_tuv = a_tuv;
+   v_light = a_light;
+   v_ao = a_ao;
    v_normal = a_normal;
-   v_position = a_position;
+   v_position = a_position + u_offset;
    // actual location
-   gl_Position = u_mvpMat * vec4(a_position, 1.0);
+   gl_Position = u_mvpMat * vec4(v_position, 1.0);
 }
 `;
 
@@ -94,6 +189,20 @@ uniform sampler2DArray u_lightDataArr;
 // Contains 27 entries of start indexes and lengths
 uniform isampler2D u_lightIndexes;
 
+// the sun during the day and the moon at night (see sky.ts)
+uniform vec3 u_sunDir;
+uniform vec3 u_sunColor;
+uniform vec3 u_ambient;
+uniform mat4 u_sunMvp;
+uniform sampler2D u_sunShadow;
+
+// fog between the camera and the fragment (see AtmosphereSettings)
+uniform vec3 u_eye;
+uniform vec3 u_fogColor;
+uniform float u_fogStart;
+uniform float u_fogEnd;
+uniform float u_fogDensity;
+
 // position
 in vec3 v_position;
 
@@ -103,24 +212,68 @@ in vec3 v_normal;
 // texCoord
 in vec3 v_tuv;
 
+// sky and block light of the voxel in front of the face, from 0 to 1
+in vec2 v_light;
+
+// ambient occlusion, from 0 (in a corner) to 1 (out in the open)
+in float v_ao;
+
 out vec4 v_outColor;
 
-void main() {
-  vec4 color = texture(u_textureAtlas, v_tuv);
+// each light level is a bit darker than the one above it
+float lightBrightness(float level) {
+  return pow(0.8, 15.0 * (1.0 - level));
+}
 
-  float lightSum = 0.2;
+void main() {
+  // merged faces have texture coordinates past 1, so wrap them to repeat the texture.
+  // the gradient comes from the unwrapped coordinates, otherwise the jump at the seams would select the smallest mip level
+  vec4 color = textureGrad(u_textureAtlas, vec3(fract(v_tuv.xy), v_tuv.z), dFdx(v_tuv.xy), dFdy(v_tuv.xy));
+
+  // how much of the sky can be seen from here
+  float sky = lightBrightness(v_light.x);
+  vec3 lightSum = vec3(0.02) + max(u_ambient * sky, vec3(0.9 * lightBrightness(v_light.y))) * mix(0.4, 1.0, v_ao);
+
+  float sunDiffuse = max(dot(v_normal, u_sunDir), 0.0);
+  if(sunDiffuse > 0.0) {
+    // push the position off the face a little, so the face doesn't shadow itself
+    vec4 sunSpacePosition = u_sunMvp * vec4(v_position + v_normal * 0.1, 1.0);
+    vec3 sunCoord = (sunSpacePosition.xyz / sunSpacePosition.w + vec3(1.0)) / 2.0;
+    bool inSunMap = all(greaterThanEqual(sunCoord, vec3(0.0))) && all(lessThanEqual(sunCoord, vec3(1.0)));
+    bool sunLit = !inSunMap || sunCoord.z - 0.0005 <= texture(u_sunShadow, sunCoord.xy).r;
+    // the sky light keeps the sun out of caves that are past the edge of the shadow map
+    if(sunLit) {
+      lightSum += u_sunColor * sunDiffuse * sky;
+    }
+  }
 
   int nLights = textureSize(u_lightIndexes, 0).x;
   for(int c = 0; c < nLights; c++) {
     int i = texelFetch(u_lightIndexes, ivec2(c, 0), 0).x;
 
-    // get light position from texture
-    vec3 lightPos = texelFetch(u_lightDataArr, ivec3(0, 0, i), 0).rgb;
+    // get light position and shadow map from texture
+    vec4 lightPosMap = texelFetch(u_lightDataArr, ivec3(0, 0, i), 0);
+    vec3 lightPos = lightPosMap.rgb;
+    int shadowMap = int(lightPosMap.a);
+    vec4 lightColorRange = texelFetch(u_lightDataArr, ivec3(1, 0, i), 0);
+
+    // pick the direction of the point light that we're in: +x, -x, +y, -y, +z, -z
+    vec3 toFrag = v_position - lightPos;
+    vec3 absToFrag = abs(toFrag);
+    int direction;
+    if(absToFrag.x >= absToFrag.y && absToFrag.x >= absToFrag.z) {
+      direction = toFrag.x >= 0.0 ? 0 : 1;
+    } else if(absToFrag.y >= absToFrag.z) {
+      direction = toFrag.y >= 0.0 ? 2 : 3;
+    } else {
+      direction = toFrag.z >= 0.0 ? 4 : 5;
+    }
+    int m = 2 + 4 * direction;
     mat4 lightMvp = mat4(
-        texelFetch(u_lightDataArr, ivec3(1, 0, i), 0),
-        texelFetch(u_lightDataArr, ivec3(2, 0, i), 0),
-        texelFetch(u_lightDataArr, ivec3(3, 0, i), 0),
-        texelFetch(u_lightDataArr, ivec3(4, 0, i), 0)
+        texelFetch(u_lightDataArr, ivec3(m + 0, 0, i), 0),
+        texelFetch(u_lightDataArr, ivec3(m + 1, 0, i), 0),
+        texelFetch(u_lightDataArr, ivec3(m + 2, 0, i), 0),
+        texelFetch(u_lightDataArr, ivec3(m + 3, 0, i), 0)
     );
     vec4 lightSpacePosition = lightMvp * vec4(v_position, 1.0);
 
@@ -136,19 +289,70 @@ void main() {
     // remap coords to texCoords
     vec2 texCoord = (projectedCoord.xy + vec2(1.0, 1.0))/2.0;
 
-    float depthMapDepth = texture(u_lightDepthArr, vec3(texCoord, i)).r;
     const float bias = 0.002;
     float currentDepth = (projectedCoord.z + 1.0)/2.0 - bias;
+    // lights without a shadow map light everything in range
+    bool lit = shadowMap < 0 || currentDepth <= texture(u_lightDepthArr, vec3(texCoord, shadowMap * 6 + direction)).r;
 
-    if(inRange && currentDepth <= depthMapDepth) {
-        float intensity = 1.0-currentDepth;
+    if(inRange && lit) {
+        // fade out linearly until the light's range
+        float intensity = max(1.0 - distance(lightPos, v_position) / lightColorRange.a, 0.0);
         vec3 lightDir = normalize(lightPos - v_position);
         float diffuseIntensity = max(dot(v_normal, lightDir), 0.0);
-        lightSum += 7.0*diffuseIntensity*intensity;
+        lightSum += lightColorRange.rgb*diffuseIntensity*intensity;
     }
   }
 
-  v_outColor = vec4(color.rgb*lightSum, color.a);
+  // exponential fog past the start, which closes in completely just before the end of the loaded world
+  float dist = distance(v_position, u_eye);
+  float fog = max(1.0 - exp(-u_fogDensity * max(dist - u_fogStart, 0.0)), smoothstep(0.85 * u_fogEnd, u_fogEnd, dist));
+
+  // the colors are premultiplied by alpha, so the fog has to be too
+  v_outColor = vec4(mix(color.rgb*lightSum, u_fogColor*color.a, fog), color.a);
+}
+`;
+
+// draws one triangle that covers the whole screen, without any vertex data
+const sky_vs = `#version 300 es
+precision highp float;
+out vec2 v_ndc;
+void main() {
+  v_ndc = vec2(gl_VertexID == 1 ? 3.0 : -1.0, gl_VertexID == 2 ? 3.0 : -1.0);
+  gl_Position = vec4(v_ndc, 1.0, 1.0);
+}
+`;
+
+const sky_fs = `#version 300 es
+precision highp float;
+
+// turns screen coordinates back into world coordinates
+uniform mat4 u_invMvpMat;
+uniform vec3 u_zenithColor;
+uniform vec3 u_horizonColor;
+// direction towards the sun. The moon is opposite it
+uniform vec3 u_sunDir;
+uniform bool u_showSunAndMoon;
+
+in vec2 v_ndc;
+out vec4 v_outColor;
+
+void main() {
+  // the direction we're looking in at this pixel
+  vec4 near = u_invMvpMat * vec4(v_ndc, -1.0, 1.0);
+  vec4 far = u_invMvpMat * vec4(v_ndc, 1.0, 1.0);
+  vec3 dir = normalize(far.xyz / far.w - near.xyz / near.w);
+
+  // remember that y points down. Below the horizon is the same color as the horizon, like the fog
+  float elevation = -dir.y;
+  vec3 color = mix(u_horizonColor, u_zenithColor, smoothstep(0.0, 0.6, elevation));
+
+  if(u_showSunAndMoon) {
+    float towardsSun = dot(dir, u_sunDir);
+    color = mix(color, vec3(1.0, 0.95, 0.8), smoothstep(0.9990, 0.9995, towardsSun));
+    color = mix(color, vec3(0.8, 0.85, 0.9), smoothstep(0.9994, 0.9997, -towardsSun));
+  }
+
+  v_outColor = vec4(color, 1.0);
 }
 `;
 
@@ -170,6 +374,10 @@ void main() {
 }
 `;
 
+// Called with the coordinates of a block when it or one of the blocks touching it changed, so blocks can react to their surroundings.
+// Listeners run inside setBlock, so they should remember the block and deal with it later instead of changing blocks themselves
+export type BlockUpdateListener = (coords: vec3) => void;
+
 export type Highlight = {
   coords: vec3,
   face: Face
@@ -179,44 +387,123 @@ class World {
   private readonly POSITION_LOC = 0;
   private readonly NORMAL_LOC = 1;
   private readonly TUV_LOC = 2;
+  private readonly LIGHT_LOC = 3;
+  private readonly AO_LOC = 4;
 
   private textureAtlas: WebGLTexture;
 
-  // Texture array containing an array of all the light shadow maps
-  private shadowTexArr: WebGLTexture;
-  // array of fbs, one for each texture in the texture array
-  private shadowFbs: WebGLFramebuffer[];
+  // the shadow maps of the lights closest to the camera
+  private shadowAtlas: ShadowMapAtlas;
+  // shadow map state of each light, keyed by light number
+  private shadowLights = new Map<number, ShadowLight>();
+  // set when lights come and go, or the camera moves to another chunk,
+  // meaning that we have to work out again which lights get shadow maps
+  private shadowsNeedRebalance = false;
+
   // texture array that's packed with data per light
-  // each texture is 5x1, first pixel contains light location (rgb)
-  // next 4 pixels represent the columns of the light matrix (rgba),
+  // each texture is LIGHT_DATA_WIDTHx1, first pixel contains light location (rgb) and shadow map, or -1 if it has none (a)
+  // second pixel contains the light color times its intensity (rgb) and its range (a)
+  // then every 4 pixels represent the columns of the matrix of one direction of the light (rgba)
   private lightDataTexArr: WebGLTexture;
 
+  // time of day, from 0 to 1 (see sky.ts)
+  private timeOfDay = DEFAULT_TIME_OF_DAY;
+  // how many seconds a day lasts
+  private dayLength = DEFAULT_DAY_LENGTH;
+
+  // the sun's shadow map, and where and when it was last drawn
+  private sunShadow: SunShadowMap;
+  private sunShadowDrawn?: { center: vec3, lightDir: vec3, mvp: mat4 };
+  // set when chunks were drawn differently since the sun's shadow map was drawn
+  private sunShadowStale = true;
+
   private renderProgram: WebGLProgram;
   private renderMvpMatLoc: WebGLUniformLocation;
   private renderTextureAtlasLoc: WebGLUniformLocation;
   private renderLightDepthArrLoc: WebGLUniformLocation;
   private renderLightDataArrLoc: WebGLUniformLocation;
   private renderLightIndexesLoc: WebGLUniformLocation;
+  private renderSunDirLoc: WebGLUniformLocation;
+  private renderSunColorLoc: WebGLUniformLocation;
+  private renderAmbientLoc: WebGLUniformLocation;
+  private renderSunMvpLoc: WebGLUniformLocation;
+  private renderSunShadowLoc: WebGLUniformLocation;
+  private renderEyeLoc: WebGLUniformLocation;
+  private renderOffsetLoc: WebGLUniformLocation;
+  private renderFogColorLoc: WebGLUniformLocation;
+  private renderFogStartLoc: WebGLUniformLocation;
+  private renderFogEndLoc: WebGLUniformLocation;
+  private renderFogDensityLoc: WebGLUniformLocation;
+
+  // draws the sky behind everything else
+  private skyProgram: WebGLProgram;
+  private skyVao: WebGLVertexArrayObject;
+  private skyInvMvpMatLoc: WebGLUniformLocation;
+  private skyZenithColorLoc: WebGLUniformLocation;
+  private skyHorizonColorLoc: WebGLUniformLocation;
+  private skySunDirLoc: WebGLUniformLocation;
+  private skyShowSunAndMoonLoc: WebGLUniformLocation;
+
+  private atmosphere: AtmosphereSettings = { ...DEFAULT_ATMOSPHERE };
+
+  private blockUpdateListeners: BlockUpdateListener[] = [];
+
+  // blocks where fluid might flow, because something next to them changed. Keyed by JSON.stringify(coords)
+  private fluidCells = new Map<string, vec3>();
+  // time since the last fluid tick
+  private fluidSeconds = 0;
 
   private shadowProgram: WebGLProgram;
   private shadowMvpMatLoc: WebGLUniformLocation;
 
   readonly emptyChunk = new Uint16Array(CHUNK_X_SIZE * CHUNK_Y_SIZE * CHUNK_Z_SIZE);
+  // light used for chunks that aren't loaded
+  private readonly unloadedLight = new Uint8Array(CHUNK_X_SIZE * CHUNK_Y_SIZE * CHUNK_Z_SIZE).fill(UNLOADED_LIGHT);
+
+  // keeps the light of the loaded chunks up to date
+  private readonly lighting: LightEngine;
 
   private worldChunkCenterLoc: vec3;
 
-  // worldgen function
-  private readonly seed: number;
-  private readonly noiseFn: (x: number, y: number, z: number) => number;
+  private readonly camera: Camera;
+
+  // see setRenderDistance
+  private renderDistance = DEFAULT_RENDER_DISTANCE;
+  // offsets from the center chunk of every chunk that should be loaded, nearest first
+  private loadOffsets: vec3[] = [];
+
+  // generates chunks that haven't been saved
+  private generator: WorldGenerator;
+  // runs generation and meshing off the main thread
+  private jobs: ChunkJobRunner;
+
+  // where edited chunks are saved when they're unloaded
+  private readonly chunkStore: ChunkStore;
+
+  // whether chunks are meshed with greedy meshing, or one quad per face
+  private greedyMeshing = true;
+
+  private renderStats: RenderStats = { drawn: 0, culled: 0, occluded: 0 };
 
   // list of active <id, highlight> pairs
   private highlights: Map<string, Graphics>;
+  // blocks that aren't in the grid, like falling blocks, by id
+  // Their mesh is built once at the origin and moved with u_offset. pos is undefined until the block is first moved
+  private entityBlocks = new Map<string, { bi: number, graphics: Graphics, pos?: vec3, voxel?: vec3 }>();
 
   // list storing free light numbers (put here after a light is deleted)
   private freeLightIndexes: number[];
+  // chunks with lights that didn't get a light number because we ran out. They try again when one is freed
+  private chunksMissingLights = new Set<Chunk>();
 
   // hashmap storing chunks
   private chunk_map: Map<string, Chunk>;
+  // unloaded chunks whose edits failed to save, by JSON.stringify(coord)
+  private unsavedChunks = new Map<string, Chunk>();
+  // chunk saves that the store hasn't finished yet
+  private savesInFlight = new Set<Promise<void>>();
+  // set while importWorld is replacing what's in the chunk store, so that nothing is loaded from it in the meantime
+  private importing = false;
 
   private gl: WebGL2RenderingContext;
   public blockManager: BlockManager
@@ -227,15 +514,28 @@ class World {
     Math.floor(cameraLoc[2] / CHUNK_Z_SIZE),
   ] as vec3;
 
-  constructor(seed: number, cameraLoc: vec3, gl: WebGL2RenderingContext, blockManager: BlockManager, camera: Camera) {
+  constructor(generator: WorldGenerator, cameraLoc: vec3, gl: WebGL2RenderingContext, blockManager: BlockManager, camera: Camera, chunkStore: ChunkStore) {
     this.gl = gl;
     this.blockManager = blockManager;
-    this.seed = seed;
-    this.noiseFn = makeNoise3D(seed);
+    this.generator = generator;
+    this.jobs = createChunkJobRunner(generator, blockManager);
+    this.chunkStore = chunkStore;
     this.worldChunkCenterLoc = this.getWorldChunkLoc(cameraLoc);
+    this.camera = camera;
     this.chunk_map = new Map();
+    this.lighting = new LightEngine(blockManager.meshInfo, coord => {
+      const chunk = this.chunk_map.get(JSON.stringify(coord));
+      return chunk?.blocks !== undefined && chunk.light !== undefined
+        ? { blocks: chunk.blocks, light: chunk.light }
+        : undefined;
+    });
     this.highlights = new Map();
 
+    // fluid might flow into or out of blocks next to a change
+    if (blockManager.fluids.length > 0) {
+      this.addBlockUpdateListener(coords => this.fluidCells.set(JSON.stringify(coords), coords));
+    }
+
     // create texture atlas
     this.textureAtlas = this.blockManager.buildTextureAtlas(this.gl);
 
@@ -249,6 +549,8 @@ class World {
         [this.POSITION_LOC, 'a_position'],
         [this.NORMAL_LOC, 'a_normal'],
         [this.TUV_LOC, 'a_tuv'],
+        [this.LIGHT_LOC, 'a_light'],
+        [this.AO_LOC, 'a_ao'],
       ])
     )!;
 
@@ -261,6 +563,17 @@ class World {
     this.renderLightDepthArrLoc = this.gl.getUniformLocation(this.renderProgram, "u_lightDepthArr")!;
     this.renderLightDataArrLoc = this.gl.getUniformLocation(this.renderProgram, "u_lightDataArr")!;
     this.renderLightIndexesLoc = this.gl.getUniformLocation(this.renderProgram, "u_lightIndexes")!;
+    this.renderSunDirLoc = this.gl.getUniformLocation(this.renderProgram, "u_sunDir")!;
+    this.renderSunColorLoc = this.gl.getUniformLocation(this.renderProgram, "u_sunColor")!;
+    this.renderAmbientLoc = this.gl.getUniformLocation(this.renderProgram, "u_ambient")!;
+    this.renderSunMvpLoc = this.gl.getUniformLocation(this.renderProgram, "u_sunMvp")!;
+    this.renderSunShadowLoc = this.gl.getUniformLocation(this.renderProgram, "u_sunShadow")!;
+    this.renderEyeLoc = this.gl.getUniformLocation(this.renderProgram, "u_eye")!;
+    this.renderOffsetLoc = this.gl.getUniformLocation(this.renderProgram, "u_offset")!;
+    this.renderFogColorLoc = this.gl.getUniformLocation(this.renderProgram, "u_fogColor")!;
+    this.renderFogStartLoc = this.gl.getUniformLocation(this.renderProgram, "u_fogStart")!;
+    this.renderFogEndLoc = this.gl.getUniformLocation(this.renderProgram, "u_fogEnd")!;
+    this.renderFogDensityLoc = this.gl.getUniformLocation(this.renderProgram, "u_fogDensity")!;
 
     // Tell the shader to get the textureAtlas texture from texture unit 0
     this.gl.uniform1i(this.renderTextureAtlasLoc, 0);
@@ -270,6 +583,8 @@ class World {
     this.gl.uniform1i(this.renderLightDataArrLoc, 2);
     // tell the shader to get its textures from this from texture unit 3
     this.gl.uniform1i(this.renderLightIndexesLoc, 3);
+    // the sun's shadow map is in texture unit 4
+    this.gl.uniform1i(this.renderSunShadowLoc, 4);
 
     // create program
     this.shadowProgram = createProgram(
@@ -285,7 +600,23 @@ class World {
     this.gl.useProgram(this.shadowProgram);
     this.shadowMvpMatLoc = this.gl.getUniformLocation(this.shadowProgram, "u_mvpMat")!;
 
-    // create global shadow data SUPER EXPENSIVE
+    this.skyProgram = createProgram(
+      this.gl,
+      [
+        createShader(this.gl, this.gl.VERTEX_SHADER, sky_vs),
+        createShader(this.gl, this.gl.FRAGMENT_SHADER, sky_fs),
+      ],
+      new Map()
+    )!;
+    this.skyInvMvpMatLoc = this.gl.getUniformLocation(this.skyProgram, "u_invMvpMat")!;
+    this.skyZenithColorLoc = this.gl.getUniformLocation(this.skyProgram, "u_zenithColor")!;
+    this.skyHorizonColorLoc = this.gl.getUniformLocation(this.skyProgram, "u_horizonColor")!;
+    this.skySunDirLoc = this.gl.getUniformLocation(this.skyProgram, "u_sunDir")!;
+    this.skyShowSunAndMoonLoc = this.gl.getUniformLocation(this.skyProgram, "u_showSunAndMoon")!;
+    // the sky's triangle has no attributes, but something has to be bound to draw it
+    this.skyVao = this.gl.createVertexArray()!;
+
+    // create global light data
     {
 
       // create pool of free light numbers
@@ -300,7 +631,7 @@ class World {
         gl.TEXTURE_2D_ARRAY,      // target
         0,                    // mip level
         gl.RGBA32F, // internal format
-        5,   // width
+        LIGHT_DATA_WIDTH,   // width
         1,   // height
         N_LIGHTS,         // depth
         0,                  // border
@@ -311,42 +642,13 @@ class World {
 
       gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
       gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
-
-
-      this.shadowTexArr = gl.createTexture()!;
-      gl.bindTexture(gl.TEXTURE_2D_ARRAY, this.shadowTexArr);
-      gl.texImage3D(
-        gl.TEXTURE_2D_ARRAY,      // target
-        0,                    // mip level
-        gl.DEPTH_COMPONENT16, // internal format
-        SHADOWMAP_SIZE,   // width
-        SHADOWMAP_SIZE,   // height
-        N_LIGHTS,   // depth
-        0,                  // border
-        gl.DEPTH_COMPONENT, // format
-        gl.UNSIGNED_SHORT,           // type
-        null,              // data
-      );
-
-      gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
-      gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
-
-      this.shadowFbs = []
-      for (let i = 0; i < N_LIGHTS; i++) {
-        const depthFramebuffer = gl.createFramebuffer()!;
-        gl.bindFramebuffer(gl.FRAMEBUFFER, depthFramebuffer);
-        gl.framebufferTextureLayer(
-          gl.FRAMEBUFFER,       // target
-          gl.DEPTH_ATTACHMENT,  // attachment point
-          this.shadowTexArr,              // texture
-          0,                         // mip level
-          i,                         // layer
-        );
-        this.shadowFbs.push(depthFramebuffer);
-      }
     }
 
-    this.updateCameraLoc();
+    // shadow maps are only allocated once there are lights that need them
+    this.shadowAtlas = new ShadowMapAtlas(gl, DEFAULT_SHADOW_SETTINGS);
+    this.sunShadow = new SunShadowMap(gl);
+
+    this.setRenderDistance(DEFAULT_RENDER_DISTANCE);
   }
 
   createGraphics = (data: Float32Array) => {
@@ -365,7 +667,7 @@ class World {
       3,              // size (num components)
       this.gl.FLOAT,  // type of data in buffer
       false,          // normalize
-      9 * 4,          // stride (0 = auto)
+      VERTEX_FLOATS * 4, // stride (0 = auto)
       0 * 4,          // offset
     );
     this.gl.enableVertexAttribArray(this.NORMAL_LOC);
@@ -374,7 +676,7 @@ class World {
       3,              // size (num components)
       this.gl.FLOAT,  // type of data in buffer
       false,          // normalize
-      9 * 4,          // stride (0 = auto)
+      VERTEX_FLOATS * 4, // stride (0 = auto)
       3 * 4,          // offset
     );
     this.gl.enableVertexAttribArray(this.TUV_LOC);
@@ -383,14 +685,32 @@ class World {
       3,              // size (num components)
       this.gl.FLOAT,  // type of data in buffer
       false,          // normalize
-      9 * 4,          // stride (0 = auto)
+      VERTEX_FLOATS * 4, // stride (0 = auto)
       6 * 4,          // offset
     );
+    this.gl.enableVertexAttribArray(this.LIGHT_LOC);
+    this.gl.vertexAttribPointer(
+      this.LIGHT_LOC,
+      2,              // size (num components)
+      this.gl.FLOAT,  // type of data in buffer
+      false,          // normalize
+      VERTEX_FLOATS * 4, // stride (0 = auto)
+      9 * 4,          // offset
+    );
+    this.gl.enableVertexAttribArray(this.AO_LOC);
+    this.gl.vertexAttribPointer(
+      this.AO_LOC,
+      1,              // size (num components)
+      this.gl.FLOAT,  // type of data in buffer
+      false,          // normalize
+      VERTEX_FLOATS * 4, // stride (0 = auto)
+      11 * 4,          // offset
+    );
 
     return {
       vao,
       buffer,
-      vertexCount: data.length / 9,
+      vertexCount: data.length / VERTEX_FLOATS,
     }
   }
 
@@ -410,27 +730,156 @@ class World {
     this.gl.deleteTexture(data.lightIndexesTex);
   }
 
-  private shouldBeLoaded = (worldChunkCoords: vec3) => {
+  // true if the chunk is within a cylinder of the given radius around the center chunk
+  private withinRadius = (worldChunkCoords: vec3, radius: number) => {
     const disp = vec3_sub(worldChunkCoords, this.worldChunkCenterLoc);
-    return (disp[0] >= -MIN_RENDER_RADIUS_X && disp[0] <= MIN_RENDER_RADIUS_X) &&
-      (disp[1] >= -MIN_RENDER_RADIUS_Y && disp[1] <= MIN_RENDER_RADIUS_Y) &&
-      (disp[2] >= -MIN_RENDER_RADIUS_Z && disp[2] <= MIN_RENDER_RADIUS_Z);
+    return Math.hypot(disp[0], disp[2]) <= radius && Math.abs(disp[1]) <= verticalRenderRadius(radius);
   }
 
-  private shouldBeUnloaded = (worldChunkCoords: vec3) => {
-    const disp = vec3_sub(worldChunkCoords, this.worldChunkCenterLoc);
-    return !((disp[0] >= -MAX_RENDER_RADIUS_X && disp[0] <= MAX_RENDER_RADIUS_X) &&
-      (disp[1] >= -MAX_RENDER_RADIUS_Y && disp[1] <= MAX_RENDER_RADIUS_Y) &&
-      (disp[2] >= -MAX_RENDER_RADIUS_Z && disp[2] <= MAX_RENDER_RADIUS_Z));
+  // if an unloaded chunk is within the render distance, then we load it
+  private shouldBeLoaded = (worldChunkCoords: vec3) =>
+    this.withinRadius(worldChunkCoords, this.renderDistance);
+
+  // if a loaded chunk is well past the render distance, we unload it
+  private shouldBeUnloaded = (worldChunkCoords: vec3) =>
+    !this.withinRadius(worldChunkCoords, this.renderDistance + UNLOAD_MARGIN);
+
+  getRenderDistance = () => this.renderDistance;
+
+  // set how many chunks away from the player the world is loaded.
+  // Also moves the camera's far plane so that everything loaded can be seen
+  setRenderDistance = (renderDistance: number) => {
+    this.renderDistance = Math.min(Math.max(Math.round(renderDistance), MIN_RENDER_DISTANCE), MAX_RENDER_DISTANCE);
+    const verticalRadius = verticalRenderRadius(this.renderDistance);
+
+    // go out ring by ring, so the list comes out roughly sorted already
+    const offsets: vec3[] = [];
+    for (let ring = 0; ring <= this.renderDistance; ring++) {
+      for (let x = -ring; x <= ring; x++) {
+        for (let z = -ring; z <= ring; z++) {
+          // only the outside of the ring, the inside was done by earlier rings
+          if (Math.max(Math.abs(x), Math.abs(z)) !== ring || Math.hypot(x, z) > this.renderDistance) {
+            continue;
+          }
+          for (let y = -verticalRadius; y <= verticalRadius; y++) {
+            offsets.push([x, y, z]);
+          }
+        }
+      }
+    }
+    this.loadOffsets = offsets.sort((a, b) => vec3_length(a) - vec3_length(b));
+
+    // the far corner of the farthest loaded chunk
+    this.camera.setFar(Math.hypot((this.renderDistance + 1) * CHUNK_X_SIZE, (verticalRadius + 1) * CHUNK_Y_SIZE));
+
+    this.updateCameraLoc();
+  }
+
+  private saveChunk = async (coord: vec3, chunk: Chunk) => {
+    if (chunk.blocks === undefined || !chunk.dirty) {
+      return;
+    }
+    const key = JSON.stringify(coord);
+    const edits = chunk.edits;
+    const save = this.chunkStore.save(coord, chunk.blocks);
+    this.savesInFlight.add(save);
+    try {
+      await save;
+    } catch (e) {
+      console.log(`Failed to save chunk ${key}:`, e);
+      // hold on to the edits of unloaded chunks, so the next saveAll can try again
+      if (this.chunk_map.get(key) !== chunk) {
+        this.unsavedChunks.set(key, chunk);
+      }
+      return;
+    } finally {
+      this.savesInFlight.delete(save);
+    }
+    // edits made while the save was in flight still need saving
+    if (chunk.edits === edits) {
+      chunk.dirty = false;
+    }
+    if (this.unsavedChunks.get(key) === chunk) {
+      this.unsavedChunks.delete(key);
+    }
+  }
+
+  // saves every loaded chunk that has been edited, and retries unloaded chunks that failed to save
+  saveAll = async () => {
+    const chunks = [...this.chunk_map, ...this.unsavedChunks];
+    await Promise.all(chunks.map(([coord, chunk]) => this.saveChunk(JSON.parse(coord), chunk)));
+  }
+
+  // export every edited chunk in the world format (see world-format.ts)
+  // chunks that were never edited aren't included, since they can be regenerated from the seed
+  exportWorld = async () => {
+    // make sure the store is up to date with what's loaded
+    await this.saveAll();
+    const chunks = await this.chunkStore.loadAll();
+    const data = encodeWorld({
+      seed: this.generator.seed,
+      chunkSize: [CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE],
+      palette: this.blockManager.defs.map(def => def.name),
+      chunks,
+    });
+    return new Blob([data], { type: "application/octet-stream" });
+  }
+
+  // replace this world with one exported by exportWorld
+  importWorld = async (file: Blob) => {
+    const save = decodeWorld(await file.arrayBuffer());
+    assert(
+      save.chunkSize[0] === CHUNK_X_SIZE && save.chunkSize[1] === CHUNK_Y_SIZE && save.chunkSize[2] === CHUNK_Z_SIZE,
+      `world file has chunk size ${JSON.stringify(save.chunkSize)}, expected ${JSON.stringify([CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE])}`
+    );
+
+    // map palette indexes to our block indexes by name
+    const remap = save.palette.map(name => {
+      const bi = this.blockManager.defs.findIndex(def => def.name === name);
+      assert(bi !== -1, `world file uses block "${name}", which isn't defined`);
+      return bi;
+    });
+
+    // Throw away all loaded chunks without saving them, so that they get reloaded from the import.
+    // This has to happen before we wait on the store, or the autosave could write chunks of the old world into it
+    this.importing = true;
+    try {
+      for (const [coord, chunk] of this.chunk_map) {
+        chunk.dirty = false;
+        this.unloadChunk(coord);
+      }
+      this.fluidCells.clear();
+      this.unsavedChunks.clear();
+      // saves that were already started have to land before the store is cleared, not after
+      await Promise.allSettled(this.savesInFlight);
+      // the ones that failed put their chunks back
+      this.unsavedChunks.clear();
+
+      await this.chunkStore.clear();
+      await Promise.all(save.chunks.map(([coord, blocks]) => this.chunkStore.save(coord, blocks.map(b => remap[b]))));
+    } finally {
+      this.importing = false;
+    }
+
+    this.generator = this.generator.withSeed(save.seed);
+    // the workers have to be restarted with the new generator
+    this.jobs.terminate();
+    this.jobs = createChunkJobRunner(this.generator, this.blockManager);
+    this.updateCameraLoc();
   }
 
   private unloadChunk = (coord: string) => {
     const chunk = this.chunk_map.get(coord)!;
+    // persist any edits before we throw away the blocks
+    this.saveChunk(JSON.parse(coord), chunk);
     if (chunk.graphics !== undefined) {
       this.deleteChunkGraphics(chunk.graphics);
+      this.sunShadowStale = true;
     }
     if (chunk.ownLights !== undefined) {
-      this.freeLightIndexes.push(...chunk.ownLights.lightData.map(x => x.index));
+      for (const { index } of chunk.ownLights.lightData.values()) {
+        this.freeLight(index);
+      }
     }
     if (chunk.completeLighting !== undefined) {
       this.deleteGPUData(chunk.completeLighting.data);
@@ -456,30 +905,25 @@ class World {
       }
     }
 
-    // create list of all locs that should be rendered
-    for (let x = -MIN_RENDER_RADIUS_X; x <= MIN_RENDER_RADIUS_X; x++) {
-      for (let y = -MIN_RENDER_RADIUS_Y; y <= MIN_RENDER_RADIUS_Y; y++) {
-        for (let z = -MIN_RENDER_RADIUS_Z; z <= MIN_RENDER_RADIUS_Z; z++) {
-          const strCoord = JSON.stringify(vec3_add(this.worldChunkCenterLoc, [x, y, z]));
-          const chunk = this.chunk_map.get(strCoord);
-          if (chunk === undefined) {
-            this.chunk_map.set(strCoord, {})
-          }
-        }
-      }
+    // the update loop works through chunk_map in order, so rebuild it nearest first.
+    // First every chunk that should be loaded, creating the ones that aren't loaded yet
+    const new_map = new Map<string, Chunk>();
+    for (const offset of this.loadOffsets) {
+      const strCoord = JSON.stringify(vec3_add(this.worldChunkCenterLoc, offset));
+      new_map.set(strCoord, this.chunk_map.get(strCoord) ?? { aabb: chunkAabb(vec3_add(this.worldChunkCenterLoc, offset)) });
     }
 
-    // sort by closest to us and set
-    const sortedCoords = Array.from(this.chunk_map.keys(), coord => JSON.parse(coord))
+    // then the chunks past the render distance that we're keeping around
+    const keptCoords = Array.from(this.chunk_map.keys())
+      .filter(coord => !new_map.has(coord))
+      .map(coord => JSON.parse(coord) as vec3)
       .sort((a, b) => {
         const a_d = vec3_length(vec3_sub(a, this.worldChunkCenterLoc));
         const b_d = vec3_length(vec3_sub(b, this.worldChunkCenterLoc));
 
         return a_d - b_d;
       });
-
-    const new_map = new Map<string, Chunk>();
-    for (const coord of sortedCoords) {
+    for (const coord of keptCoords) {
       const strCoord = JSON.stringify(coord);
       new_map.set(strCoord, this.chunk_map.get(strCoord)!);
     }
@@ -493,10 +937,10 @@ class World {
       this.deleteGraphics(highlight);
     }
     const graphics = this.createGraphics(writeMesh([{
-      bi: 6,
+      bi: this.blockManager.getIndex("selector"),
       cubeLoc: ray.coords,
       face: ray.face,
-    }]));
+    }], this.blockManager.meshInfo));
     this.highlights.set(id, graphics);
   }
 
@@ -508,35 +952,81 @@ class World {
     }
   }
 
-  private createLightData = (face: BlockFace): [vec3, mat4] => {
+  // the faces of a block at the origin, lit with the given packed light
+  private entityBlockMesh = (bi: number, light?: number) =>
+    writeMesh([Face.LEFT, Face.RIGHT, Face.UP, Face.DOWN, Face.FRONT, Face.BACK].map(face => ({ bi, cubeLoc: [0, 0, 0], face, light })), this.blockManager.meshInfo);
+
+  // start drawing a block that isn't in the grid. It shows up once it's moved somewhere with moveEntityBlock
+  addEntityBlock = (id: string, bi: number) => {
+    this.removeEntityBlock(id);
+    this.entityBlocks.set(id, { bi, graphics: this.createGraphics(this.entityBlockMesh(bi)) });
+  }
+
+  // put the corner of the block with the smallest coordinates at pos
+  moveEntityBlock = (id: string, pos: vec3) => {
+    const entityBlock = this.entityBlocks.get(id);
+    if (entityBlock === undefined) {
+      return;
+    }
+    entityBlock.pos = pos;
+    // the mesh only needs rewriting when the block moves into another voxel, which may be lit differently
+    const voxel = pos.map(Math.floor) as vec3;
+    if (entityBlock.voxel !== undefined && entityBlock.voxel.every((c, i) => c === voxel[i])) {
+      return;
+    }
+    entityBlock.voxel = voxel;
+    const light = this.chunk_map.get(JSON.stringify(this.getWorldChunkLoc(voxel)))?.light?.[chunkDataIndex(
+      mod(voxel[0], CHUNK_X_SIZE),
+      mod(voxel[1], CHUNK_Y_SIZE),
+      mod(voxel[2], CHUNK_Z_SIZE),
+    )];
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, entityBlock.graphics.buffer);
+    this.gl.bufferSubData(this.gl.ARRAY_BUFFER, 0, this.entityBlockMesh(entityBlock.bi, light));
+  }
+
+  removeEntityBlock = (id: string) => {
+    const entityBlock = this.entityBlocks.get(id);
+    if (entityBlock !== undefined) {
+      this.deleteGraphics(entityBlock.graphics);
+      this.entityBlocks.delete(id);
+    }
+  }
+
+  // listen for changes to blocks (see BlockUpdateListener)
+  addBlockUpdateListener = (listener: BlockUpdateListener) => {
+    this.blockUpdateListeners.push(listener);
+  }
+
+  removeBlockUpdateListener = (listener: BlockUpdateListener) => {
+    this.blockUpdateListeners = this.blockUpdateListeners.filter(l => l !== listener);
+  }
+
+  // a point light in the center of the block, with a 90 degree frustum in each direction
+  private createLightData = (block: EmissiveBlock): ShadowLightData => {
+    const light = this.blockManager.defs[block.bi].light ?? DEFAULT_BLOCK_LIGHT;
     // actual location of the light is in the center of the block
-    const lightLoc = vec3_add(face.cubeLoc, [0.5, 0.5, 0.5]);
-    // note that the near plane starts slightly after the face
-    // the far plane is less than the chunk size
-    const projectionMat = mat4_perspective(RADIANS(90.0), 1, 0.5, 10);
-
-    const up: vec3 = face.face === Face.UP || face.face === Face.DOWN
-      ? [-1, 0, 0]
-      : [0, -1, 0];
-
-    const viewMat = mat4_look_at(lightLoc, vec3_add(lightLoc, getNormal(face.face)), up);
-    // compute final matrix
-    const lightMvp = mat4_mul(projectionMat, viewMat)
-    // return
-    return [lightLoc, lightMvp];
+    const lightLoc = vec3_add(block.cubeLoc, [0.5, 0.5, 0.5]);
+    // the block's own faces point away from the light, so they get culled and don't need to be skipped by the near plane.
+    // the far plane is at the light's range, which is at most the chunk size
+    const projectionMat = mat4_perspective(RADIANS(90.0), 1, 0.1, light.range);
+
+    const mvps = LIGHT_DIRECTIONS.map(([dir, up]) => mat4_mul(projectionMat, mat4_look_at(lightLoc, vec3_add(lightLoc, dir), up)));
+    return [lightLoc, mvps, light];
   }
 
-  private updateLightDataTex = (lightNumber: number, lightData: [vec3, mat4]) => {
-    // 5 pixels, 4 channels = 20 floats per entry
-    const data = new Float32Array(20);
+  private updateLightDataTex = (lightNumber: number, lightData: ShadowLightData, shadowMap: number = -1) => {
+    const data = new Float32Array(LIGHT_DATA_WIDTH * 4);
     {
-      let [loc, mat] = lightData;
-      let [m0, m1, m2, m3] = mat4_transpose(mat);
-      data.set(loc, 0);
-      data.set(m0, 4);
-      data.set(m1, 8);
-      data.set(m2, 12);
-      data.set(m3, 16);
+      let [loc, mvps, { color, intensity, range }] = lightData;
+      data.set([...loc, shadowMap], 0);
+      data.set([color[0] * intensity, color[1] * intensity, color[2] * intensity, range], 4);
+      for (let d = 0; d < mvps.length; d++) {
+        let [m0, m1, m2, m3] = mat4_transpose(mvps[d]);
+        data.set(m0, 8 + d * 16);
+        data.set(m1, 12 + d * 16);
+        data.set(m2, 16 + d * 16);
+        data.set(m3, 20 + d * 16);
+      }
     }
 
     this.gl.bindTexture(this.gl.TEXTURE_2D_ARRAY, this.lightDataTexArr);
@@ -546,7 +1036,7 @@ class World {
       0, // xoffset
       0, // yoffset
       lightNumber, // zoffset
-      5, // width
+      LIGHT_DATA_WIDTH, // width
       1, // height
       1, // depth
       this.gl.RGBA, // format
@@ -555,31 +1045,214 @@ class World {
     );
   }
 
+  // give a light number back to the pool, along with its shadow map
+  private freeLight = (index: number) => {
+    const shadow = this.shadowLights.get(index);
+    if (shadow !== undefined && shadow.map !== undefined) {
+      this.shadowAtlas.release(shadow.map);
+    }
+    this.shadowLights.delete(index);
+    this.freeLightIndexes.push(index);
+    this.shadowsNeedRebalance = true;
+
+    for (const chunk of this.chunksMissingLights) {
+      if (chunk.ownLights !== undefined) {
+        chunk.ownLights.stale = true;
+      }
+    }
+    this.chunksMissingLights.clear();
+  }
+
+  // the shadow map to sample the light's shadows from, or -1 if it doesn't have a usable shadow map
+  private drawnShadowMap = (shadow: ShadowLight) =>
+    shadow.map !== undefined && shadow.renderedGeneration === this.shadowAtlas.generation ? shadow.map : -1;
+
+  // Hands out shadow maps to the lights closest to the camera and draws the ones that are out of date.
+  // Lights that don't get a shadow map keep lighting the scene without shadows
+  private updateShadows = (cameraLoc: vec3) => {
+    const byDistance = Array.from(this.shadowLights)
+      .map(([index, shadow]) => ({ index, shadow, distance: vec3_length(vec3_sub(shadow.data[0], cameraLoc)) }))
+      .sort((a, b) => a.distance - b.distance);
+
+    if (this.shadowsNeedRebalance) {
+      this.shadowsNeedRebalance = false;
+      const capacity = this.shadowAtlas.getSettings().capacity;
+      // take away the shadow maps of the lights that are too far away first, so the closer ones can have them
+      for (const { index, shadow } of byDistance.slice(capacity)) {
+        if (shadow.map !== undefined) {
+          this.shadowAtlas.release(shadow.map);
+          shadow.map = undefined;
+          shadow.renderedGeneration = undefined;
+          this.updateLightDataTex(index, shadow.data);
+        }
+      }
+      for (const { shadow } of byDistance.slice(0, capacity)) {
+        if (shadow.map === undefined) {
+          shadow.map = this.shadowAtlas.allocate();
+        }
+      }
+    }
+
+    // if the atlas grew, all of the shadow maps are gone, so stop sampling them until they're drawn again
+    for (const { index, shadow } of byDistance) {
+      if (shadow.renderedGeneration !== undefined && shadow.renderedGeneration !== this.shadowAtlas.generation) {
+        shadow.renderedGeneration = undefined;
+        this.updateLightDataTex(index, shadow.data);
+      }
+    }
+
+    // draw the closest out of date shadow maps
+    let renders = 0;
+    for (const { index, shadow } of byDistance) {
+      if (renders >= SHADOW_RENDERS_PER_UPDATE) {
+        break;
+      }
+      if (shadow.map === undefined || (shadow.renderedGeneration !== undefined && !shadow.stale)) {
+        continue;
+      }
+      // only the solid part of the chunk and the chunks around it cast shadows
+      const solidsToRender: Graphics[] = [];
+      for (const coord of [shadow.coord, ...this.neighboringChunkLocs(shadow.coord)]) {
+        const chunk = this.chunk_map.get(JSON.stringify(coord));
+        if (chunk && chunk.graphics) {
+          solidsToRender.push(chunk.graphics.solid);
+        }
+      }
+      this.renderShadowMap(shadow.map, shadow.data[1], solidsToRender);
+      shadow.renderedGeneration = this.shadowAtlas.generation;
+      shadow.stale = false;
+      this.updateLightDataTex(index, shadow.data, shadow.map);
+      renders++;
+    }
+  }
+
+  // Redraws the sun's shadow map if the camera or the sun moved too far since it was drawn, or if the chunks changed
+  private updateSunShadow = (cameraLoc: vec3) => {
+    const { lightDir } = this.getSky();
+    const drawn = this.sunShadowDrawn;
+    if (
+      drawn !== undefined &&
+      !this.sunShadowStale &&
+      vec3_length(vec3_sub(cameraLoc, drawn.center)) < SUN_SHADOW_REDRAW_DISTANCE &&
+      vec3_dot(lightDir, drawn.lightDir) > SUN_SHADOW_REDRAW_COS_ANGLE
+    ) {
+      return;
+    }
+
+    const mvp = this.sunShadow.computeMvp(cameraLoc, lightDir);
+    const planes = frustum_planes(mvp);
+
+    this.gl.useProgram(this.shadowProgram);
+    this.gl.uniformMatrix4fv(this.shadowMvpMatLoc, false, mat4_to_uniform(mvp));
+
+    this.sunShadow.bind();
+    this.gl.enable(this.gl.DEPTH_TEST); // enable depth tests
+    this.gl.enable(this.gl.CULL_FACE) // remove reversed faces
+    this.gl.clear(this.gl.DEPTH_BUFFER_BIT);
+
+    // only the chunks inside the shadow map's box can cast shadows into it
+    for (const chunk of this.chunk_map.values()) {
+      if (chunk.graphics !== undefined && aabb_in_frustum(chunk.aabb, planes)) {
+        this.gl.bindVertexArray(chunk.graphics.solid.vao);
+        this.gl.drawArrays(this.gl.TRIANGLES, 0, chunk.graphics.solid.vertexCount);
+      }
+    }
+
+    this.sunShadowDrawn = { center: cameraLoc, lightDir, mvp };
+    this.sunShadowStale = false;
+  }
+
+  // how the sky and sun look right now
+  getSky = (): SkyState => skyAt(this.timeOfDay);
+
+  getTimeOfDay = () => this.timeOfDay;
+
+  // set the time of day, from 0 to 1: 0 is midnight, 0.25 is sunrise, 0.5 is noon and 0.75 is sunset.
+  // Times outside of that wrap around
+  setTimeOfDay = (timeOfDay: number) => {
+    assert(Number.isFinite(timeOfDay), `time of day must be a number, found ${timeOfDay}`);
+    this.timeOfDay = mod(timeOfDay, 1);
+  }
+
+  getDayLength = () => this.dayLength;
+
+  // set how many seconds a full day lasts
+  setDayLength = (seconds: number) => {
+    assert(seconds > 0, `day length must be positive, found ${seconds}`);
+    this.dayLength = seconds;
+  }
+
+  // move the clock forward, letting fluids flow
+  advanceTime = (seconds: number) => {
+    this.setTimeOfDay(this.timeOfDay + seconds / this.dayLength);
+    this.fluidSeconds += seconds;
+    while (this.fluidSeconds >= FLUID_TICK_SECONDS) {
+      this.fluidSeconds -= FLUID_TICK_SECONDS;
+      this.flowFluids();
+    }
+  }
+
+  // run one step of the fluid simulation (see fluid.ts) on the blocks waiting for it
+  private flowFluids = () => {
+    const cells = [...this.fluidCells.values()].slice(0, MAX_FLUID_CELLS_PER_TICK);
+    for (const coords of cells) {
+      this.fluidCells.delete(JSON.stringify(coords));
+    }
+    // work out all the changes before applying any of them, so the order of the cells doesn't matter
+    const changes = this.blockManager.fluids.flatMap(fluid => flowStep(this, fluid, cells));
+    for (const { coords, block } of changes) {
+      this.setBlock(coords, block);
+    }
+  }
+
+  getAtmosphere = (): AtmosphereSettings => ({ ...this.atmosphere });
+
+  // change the fog and the colors of the sky, for example to UNDERWATER_ATMOSPHERE when the camera is in water
+  setAtmosphere = (atmosphere: AtmosphereSettings) => {
+    assert(atmosphere.fogStart >= 0 && atmosphere.fogStart <= 1, `fog start must be between 0 and 1, found ${atmosphere.fogStart}`);
+    assert(atmosphere.fogDensity >= 0, `fog density must be at least 0, found ${atmosphere.fogDensity}`);
+    this.atmosphere = { ...atmosphere };
+  }
+
+  getShadowSettings = () => this.shadowAtlas.getSettings();
+
+  // change how many shadow maps there can be and how big they are. All shadow maps get redrawn
+  setShadowSettings = (settings: ShadowSettings) => {
+    this.shadowAtlas.configure(settings);
+    for (const [index, shadow] of this.shadowLights) {
+      shadow.map = undefined;
+      shadow.renderedGeneration = undefined;
+      this.updateLightDataTex(index, shadow.data);
+    }
+    this.shadowsNeedRebalance = true;
+  }
+
   // we use a 3d texture to store all of the textures in a cube
   private renderShadowMap = (
-    i: number,
-    mvpMat: mat4,
+    shadowMap: number,
+    mvpMats: mat4[],
     solids: Graphics[]
   ) => {
     this.gl.useProgram(this.shadowProgram);
 
-    // bind mvpMat matrix
-    this.gl.uniformMatrix4fv(this.shadowMvpMatLoc, false, mat4_to_uniform(mvpMat));
-
     // set settings
-    this.gl.viewport(0, 0, SHADOWMAP_SIZE, SHADOWMAP_SIZE);
     this.gl.enable(this.gl.DEPTH_TEST); // enable depth tests
     this.gl.enable(this.gl.CULL_FACE) // remove reversed faces
     this.gl.enable(this.gl.BLEND) // enable blending
     this.gl.blendFunc(this.gl.ONE, this.gl.ONE_MINUS_SRC_ALPHA) // blend by adding together alpha
 
-    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.shadowFbs[i]);
-    this.gl.clear(this.gl.DEPTH_BUFFER_BIT);
+    for (let direction = 0; direction < mvpMats.length; direction++) {
+      // bind mvpMat matrix
+      this.gl.uniformMatrix4fv(this.shadowMvpMatLoc, false, mat4_to_uniform(mvpMats[direction]));
+
+      this.shadowAtlas.bindLayer(shadowMap, direction);
+      this.gl.clear(this.gl.DEPTH_BUFFER_BIT);
 
-    // actually draw
-    for (const solid of solids) {
-      this.gl.bindVertexArray(solid.vao);
-      this.gl.drawArrays(this.gl.TRIANGLES, 0, solid.vertexCount);
+      // actually draw
+      for (const solid of solids) {
+        this.gl.bindVertexArray(solid.vao);
+        this.gl.drawArrays(this.gl.TRIANGLES, 0, solid.vertexCount);
+      }
     }
   }
 
@@ -609,6 +1282,71 @@ class World {
     return offsets;
   }
 
+  getGreedyMeshing = () => this.greedyMeshing;
+
+  // switch between greedy meshing and one quad per face. All chunks get remeshed
+  setGreedyMeshing = (greedy: boolean) => {
+    if (greedy !== this.greedyMeshing) {
+      this.greedyMeshing = greedy;
+      for (const chunk of this.chunk_map.values()) {
+        this.markMeshStale(chunk);
+      }
+    }
+  }
+
+  // the mesh has to be rebuilt, and any mesh that's being built right now is out of date
+  private markMeshStale = (chunk: Chunk) => {
+    if (chunk.mesh) {
+      chunk.mesh.stale = true;
+    }
+    chunk.meshJob = undefined;
+  }
+
+  // call after setting the blocks of a chunk that just finished loading
+  private onBlocksLoaded = (coord: vec3, chunk: Chunk) => {
+    chunk.stored = undefined;
+    chunk.loadJob = undefined;
+    // mark neighboring chunks as stale
+    for (const loc of this.adjacentChunkLocs(coord)) {
+      const chunk = this.chunk_map.get(JSON.stringify(loc));
+      if (chunk) {
+        this.markMeshStale(chunk);
+      }
+    }
+    // the workers lit the chunk on its own, which leaves only its borders with the loaded chunks around it to light here
+    this.markLightChanged(this.lighting.lightChunk(coord));
+    this.queueLoadedFluid(coord);
+  }
+
+  // Fluid only flows where something changed, and nothing changes in a chunk that isn't loaded.
+  // So when a chunk loads, queue the fluid in and around it that might flow (see cellsToFlow)
+  private queueLoadedFluid = (coord: vec3) => {
+    for (const fluid of this.blockManager.fluids) {
+      // most chunks have no fluid in or next to them, so skip the search for those
+      const fluidBlocks = new Set(fluid.levels.slice(1));
+      const nearby = [coord, ...this.adjacentChunkLocs(coord)].map(loc => this.chunk_map.get(JSON.stringify(loc))?.blocks);
+      if (!nearby.some(blocks => blocks?.some(bi => fluidBlocks.has(bi)))) {
+        continue;
+      }
+      const min: vec3 = [coord[0] * CHUNK_X_SIZE, coord[1] * CHUNK_Y_SIZE, coord[2] * CHUNK_Z_SIZE];
+      for (const cell of cellsToFlow(this, fluid, min, vec3_add(min, [CHUNK_X_SIZE, CHUNK_Y_SIZE, CHUNK_Z_SIZE]))) {
+        this.fluidCells.set(JSON.stringify(cell), cell);
+      }
+    }
+  }
+
+  // remesh the chunks whose light changed
+  private markLightChanged = (coords: Set<string>) => {
+    for (const coord of coords) {
+      const chunk = this.chunk_map.get(coord);
+      if (chunk) {
+        this.markMeshStale(chunk);
+      }
+    }
+  }
+
+  getChunkLightIfExists = (coord: vec3) => this.chunk_map.get(JSON.stringify(coord))?.light ?? this.unloadedLight;
+
   getChunkBlocksIfExists = (coord: vec3) => {
     const blocks = this.chunk_map.get(JSON.stringify(coord))?.blocks;
     if (blocks) {
@@ -625,81 +1363,134 @@ class World {
     for (const [coord, chunk] of this.chunk_map) {
       const parsedCoord = JSON.parse(coord) as vec3;
       if (chunk.blocks === undefined) {
-        chunk.blocks = genChunkData(parsedCoord, this.noiseFn);
-        // mark neighboring chunks as stale
-        for (const loc of this.adjacentChunkLocs(parsedCoord)) {
-          const chunk = this.chunk_map.get(JSON.stringify(loc));
-          if (chunk && chunk.mesh) {
-            chunk.mesh.stale = true
-          }
+        // the chunks the camera moves into during an import wait for it to finish
+        if (this.importing) {
+          continue CHUNK_UPDATE_LOOP;
+        }
+        // edits that failed to save are newer than anything in the store
+        const unsaved = this.unsavedChunks.get(coord);
+        if (unsaved?.blocks !== undefined) {
+          this.unsavedChunks.delete(coord);
+          chunk.stored = { done: true, blocks: unsaved.blocks };
+          chunk.dirty = true;
+          chunk.edits = unsaved.edits;
+          chunk.loadJob = undefined;
+        }
+        // we have to check for a saved copy before generating
+        if (chunk.stored === undefined) {
+          const stored: { done: boolean, blocks?: Uint16Array } = { done: false };
+          chunk.stored = stored;
+          this.chunkStore.load(parsedCoord)
+            .then(blocks => stored.blocks = blocks)
+            .catch(e => console.log(`Failed to load chunk ${coord}, regenerating:`, e))
+            .finally(() => stored.done = true);
+        }
+        if (!chunk.stored.done) {
+          continue CHUNK_UPDATE_LOOP;
         }
-        current_cost += CHUNK_GEN_COST;
+        if (chunk.loadJob === undefined) {
+          const job = {};
+          chunk.loadJob = job;
+          const stored = chunk.stored.blocks;
+          const loaded = stored !== undefined
+            ? this.jobs.light(stored).then(light => ({ blocks: stored, light }))
+            : this.jobs.generate(parsedCoord);
+          loaded
+            .then(({ blocks, light }) => {
+              // drop the result if the chunk was unloaded, or got its unsaved blocks back, in the meantime
+              if (this.chunk_map.get(coord) === chunk && chunk.loadJob === job) {
+                chunk.blocks = blocks;
+                chunk.light = light;
+                this.onBlocksLoaded(parsedCoord, chunk);
+              }
+            })
+            .catch(e => {
+              console.log(`Failed to ${stored !== undefined ? "light" : "generate"} chunk ${coord}:`, e);
+              if (chunk.loadJob === job) {
+                chunk.loadJob = undefined;
+              }
+            });
+        }
+        continue CHUNK_UPDATE_LOOP;
       }
 
-      if (current_cost > 1) { break CHUNK_UPDATE_LOOP; }
-
-      const offset: vec3 = [parsedCoord[0] * CHUNK_X_SIZE, parsedCoord[1] * CHUNK_Y_SIZE, parsedCoord[2] * CHUNK_Z_SIZE];
-
       if (chunk.mesh === undefined || chunk.mesh.stale) {
-
-        // if an adjacent chunk should be loaded but isn't generated
-        // then skip this chunk
-        for (const neighborLoc of this.adjacentChunkLocs(parsedCoord)) {
-          if (this.shouldBeLoaded(neighborLoc)) {
-            const chunk = this.chunk_map.get(JSON.stringify(neighborLoc));
-            if (chunk === undefined || chunk.blocks === undefined) {
-              // skip this chunk
-              continue CHUNK_UPDATE_LOOP;
+        if (chunk.meshJob === undefined) {
+          // if an adjacent chunk should be loaded but isn't generated
+          // then skip this chunk
+          for (const neighborLoc of this.adjacentChunkLocs(parsedCoord)) {
+            if (this.shouldBeLoaded(neighborLoc)) {
+              const chunk = this.chunk_map.get(JSON.stringify(neighborLoc));
+              if (chunk === undefined || chunk.blocks === undefined) {
+                // skip this chunk
+                continue CHUNK_UPDATE_LOOP;
+              }
             }
           }
-        }
 
-        const { solid, transparent, lights } = createMesh(
-          // offset to store at
-          offset,
-          // block manager
-          this.blockManager,
-          // core
-          chunk.blocks,
-          // left
-          this.getChunkBlocksIfExists(vec3_add(parsedCoord, [-1, 0, 0])),
-          // right
-          this.getChunkBlocksIfExists(vec3_add(parsedCoord, [+1, 0, 0])),
-          // up
-          this.getChunkBlocksIfExists(vec3_add(parsedCoord, [0, -1, 0])),
-          // down
-          this.getChunkBlocksIfExists(vec3_add(parsedCoord, [0, +1, 0])),
-          // back
-          this.getChunkBlocksIfExists(vec3_add(parsedCoord, [0, 0, -1])),
-          // front
-          this.getChunkBlocksIfExists(vec3_add(parsedCoord, [0, 0, +1])),
-        );
-
-        chunk.mesh = {
-          solid,
-          transparent,
-          lights,
-          stale: false
-        }
-        // update our graphics
-        if (chunk.graphics !== undefined) {
-          chunk.graphics.stale = true;
+          const neighbors: ChunkNeighbors = [
+            // left
+            this.getChunkBlocksIfExists(vec3_add(parsedCoord, [-1, 0, 0])),
+            // right
+            this.getChunkBlocksIfExists(vec3_add(parsedCoord, [+1, 0, 0])),
+            // up
+            this.getChunkBlocksIfExists(vec3_add(parsedCoord, [0, -1, 0])),
+            // down
+            this.getChunkBlocksIfExists(vec3_add(parsedCoord, [0, +1, 0])),
+            // back
+            this.getChunkBlocksIfExists(vec3_add(parsedCoord, [0, 0, -1])),
+            // front
+            this.getChunkBlocksIfExists(vec3_add(parsedCoord, [0, 0, +1])),
+          ];
+          const neighborLight: ChunkNeighborLight = [
+            this.getChunkLightIfExists(vec3_add(parsedCoord, [-1, 0, 0])),
+            this.getChunkLightIfExists(vec3_add(parsedCoord, [+1, 0, 0])),
+            this.getChunkLightIfExists(vec3_add(parsedCoord, [0, -1, 0])),
+            this.getChunkLightIfExists(vec3_add(parsedCoord, [0, +1, 0])),
+            this.getChunkLightIfExists(vec3_add(parsedCoord, [0, 0, -1])),
+            this.getChunkLightIfExists(vec3_add(parsedCoord, [0, 0, +1])),
+          ];
+
+          const job = {};
+          chunk.meshJob = job;
+          this.jobs.mesh(parsedCoord, chunk.blocks, neighbors, this.getChunkLightIfExists(parsedCoord), neighborLight, this.greedyMeshing)
+            .then(mesh => {
+              // drop the result if the chunk was unloaded, or it (or a neighbor) was edited while we were meshing
+              if (this.chunk_map.get(coord) !== chunk || chunk.meshJob !== job) {
+                return;
+              }
+              chunk.meshJob = undefined;
+              chunk.mesh = { ...mesh, stale: false };
+              // update our graphics
+              if (chunk.graphics !== undefined) {
+                chunk.graphics.stale = true;
+              }
+            })
+            .catch(e => {
+              console.log(`Failed to mesh chunk ${coord}:`, e);
+              if (chunk.meshJob === job) {
+                chunk.meshJob = undefined;
+              }
+            });
         }
 
-        current_cost += CHUNK_MESH_COST;
+        // we can keep going with the old mesh if we have one
+        if (chunk.mesh === undefined) {
+          continue CHUNK_UPDATE_LOOP;
+        }
       }
 
-      if (current_cost > 1) { break CHUNK_UPDATE_LOOP; }
-
       if (chunk.graphics === undefined || chunk.graphics.stale) {
         if (chunk.graphics !== undefined) {
           this.deleteChunkGraphics(chunk.graphics);
         }
         chunk.graphics = {
-          solid: this.createGraphics(writeMesh(chunk.mesh.solid)),
-          transparent: this.createGraphics(writeMesh(chunk.mesh.transparent)),
+          solid: this.createGraphics(chunk.mesh.solid),
+          transparent: this.createGraphics(chunk.mesh.transparent),
+          transparentData: chunk.mesh.transparent,
           stale: false
         }
+        this.sunShadowStale = true;
 
         // lights for all surrounding chunks will need to rerender
         if (chunk.ownLights !== undefined) {
@@ -718,56 +1509,56 @@ class World {
       if (current_cost > 1) { break CHUNK_UPDATE_LOOP; }
 
       if (chunk.ownLights === undefined || chunk.ownLights.stale) {
-        // only consider lights from this chunk
-        const newLightMatLoc = chunk.mesh.lights
-          // create light mat & loc for each one
-          .map(this.createLightData)
-
-
         let lightIndexesChanged = false;
 
-        const oldLightIndexes = chunk.ownLights === undefined ? [] : chunk.ownLights.lightData.map(x => x.index);
+        const oldLightData = chunk.ownLights === undefined ? new Map<string, { matLoc: ShadowLightData, index: number }>() : chunk.ownLights.lightData;
 
-        let newLightData: { matLoc: [vec3, mat4], index: number }[] = [];
+        const newLightData = new Map<string, { matLoc: ShadowLightData, index: number }>();
 
-        for (const [matLoc, index] of zip(newLightMatLoc, oldLightIndexes)) {
-          if (matLoc !== undefined && index !== undefined) {
-            // if both are defined, reuse
-            newLightData.push({ matLoc, index });
+        // only consider lights from this chunk
+        for (const block of chunk.mesh.lights) {
+          const key = JSON.stringify(block.cubeLoc);
+          const matLoc = this.createLightData(block);
+          const old = oldLightData.get(key);
+          if (old !== undefined) {
+            // a light that's still in the same block keeps its light number (and its shadow map)
+            newLightData.set(key, { matLoc, index: old.index });
+            continue;
+          }
+          // we need to get a new light index to use
+          const idx = this.freeLightIndexes.pop();
+          // if we ran out, the block just doesn't light anything until a light number is freed
+          if (idx !== undefined) {
+            newLightData.set(key, { matLoc, index: idx });
+            lightIndexesChanged = true;
+          } else {
+            this.chunksMissingLights.add(chunk);
           }
-          if (matLoc === undefined && index !== undefined) {
-            // if we have extra indexes, release
-            this.freeLightIndexes.push(index);
+        }
+        for (const [key, { index }] of oldLightData) {
+          if (!newLightData.has(key)) {
+            // release the lights of blocks that are gone
+            this.freeLight(index);
             // releasing an index counts as a change
             lightIndexesChanged = true;
-          } else if (matLoc !== undefined && index === undefined) {
-            // we need to get a new light index to use
-            const idx = this.freeLightIndexes.pop();
-            // if not undefined, we can add it to our list
-            if (idx !== undefined) {
-              newLightData.push({ matLoc, index: idx });
-              lightIndexesChanged = true;
-            } else {
-              console.log("Ran out of lights!");
-            }
           }
         }
 
         chunk.ownLights = { stale: true, lightData: newLightData }
 
-        // only want to render solid part of scene
-        const solidsToRender: Graphics[] = [chunk.graphics.solid];
-        for (const coord of this.neighboringChunkLocs(parsedCoord)) {
-          const chunk = this.chunk_map.get(JSON.stringify(coord));
-          if (chunk && chunk.graphics) {
-            solidsToRender.push(chunk.graphics.solid);
+        // the shadow maps get drawn later by updateShadows
+        for (const { index, matLoc } of chunk.ownLights.lightData.values()) {
+          const shadow = this.shadowLights.get(index);
+          if (shadow === undefined) {
+            this.shadowLights.set(index, { coord: parsedCoord, data: matLoc, stale: true });
+            this.shadowsNeedRebalance = true;
+          } else {
+            shadow.coord = parsedCoord;
+            shadow.data = matLoc;
+            shadow.stale = true;
           }
-        }
-
-        // now iterate through our graphics map and render world
-        for (const { index, matLoc } of chunk.ownLights.lightData) {
-          this.renderShadowMap(index, matLoc[1], solidsToRender);
-          this.updateLightDataTex(index, matLoc);
+          // keep showing the old shadow map until the new one is drawn
+          this.updateLightDataTex(index, matLoc, this.drawnShadowMap(this.shadowLights.get(index)!));
         }
 
         // update light data for chunk
@@ -802,9 +1593,7 @@ class World {
         // get list of light indexes from neighboring chunks
         const lightIndexes = [parsedCoord, ...this.neighboringChunkLocs(parsedCoord)]
           .map(c => this.chunk_map.get(JSON.stringify(c))?.ownLights?.lightData)
-          .flatMap(ld => ld === undefined ? [] : ld.map(x => x.index));
-
-        console.log(lightIndexes);
+          .flatMap(ld => ld === undefined ? [] : Array.from(ld.values(), x => x.index));
 
         this.gl.bindTexture(this.gl.TEXTURE_2D, chunk.completeLighting.data.lightIndexesTex);
         this.gl.texImage2D(
@@ -836,17 +1625,42 @@ class World {
     ) {
       this.worldChunkCenterLoc = cameraChunkLoc;
       this.updateCameraLoc();
+      // other lights may be closest now
+      this.shadowsNeedRebalance = true;
     }
+
+    this.updateShadows(cameraLoc);
+    this.updateSunShadow(cameraLoc);
   }
 
   render = (mvpMat: mat4) => {
-    // use render program
-    this.gl.useProgram(this.renderProgram);
-
     // render to canvas
     this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, null);
     this.gl.viewport(0, 0, this.gl.canvas.width, this.gl.canvas.height);
 
+    const sky = this.getSky();
+    const zenithColor = this.atmosphere.skyColors?.zenith ?? sky.zenithColor;
+    const horizonColor = this.atmosphere.skyColors?.horizon ?? sky.horizonColor;
+    const fogColor = this.atmosphere.fogColor ?? horizonColor;
+
+    this.gl.clearColor(horizonColor[0], horizonColor[1], horizonColor[2], 1.0);
+    this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+
+    // draw the sky first, everything else goes in front of it
+    this.gl.useProgram(this.skyProgram);
+    this.gl.uniformMatrix4fv(this.skyInvMvpMatLoc, false, mat4_to_uniform(mat4_inverse(mvpMat)));
+    this.gl.uniform3fv(this.skyZenithColorLoc, zenithColor);
+    this.gl.uniform3fv(this.skyHorizonColorLoc, horizonColor);
+    this.gl.uniform3fv(this.skySunDirLoc, sunDirection(this.timeOfDay));
+    this.gl.uniform1i(this.skyShowSunAndMoonLoc, this.atmosphere.showSunAndMoon ? 1 : 0);
+    this.gl.disable(this.gl.DEPTH_TEST);
+    this.gl.disable(this.gl.BLEND);
+    this.gl.bindVertexArray(this.skyVao);
+    this.gl.drawArrays(this.gl.TRIANGLES, 0, 3);
+
+    // use render program
+    this.gl.useProgram(this.renderProgram);
+
     // bind matrix
     this.gl.uniformMatrix4fv(this.renderMvpMatLoc, false, mat4_to_uniform(mvpMat));
 
@@ -855,8 +1669,22 @@ class World {
     this.gl.enable(this.gl.BLEND) // enable blending
     this.gl.blendFunc(this.gl.ONE, this.gl.ONE_MINUS_SRC_ALPHA) // blend by adding together alpha
 
-    this.gl.clearColor(0.0, 0.0, 0.0, 1.0);
-    this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+    this.gl.uniform3fv(this.renderSunDirLoc, sky.lightDir);
+    this.gl.uniform3fv(this.renderSunColorLoc, sky.lightColor);
+    this.gl.uniform3fv(this.renderAmbientLoc, sky.ambient);
+    if (this.sunShadowDrawn !== undefined) {
+      this.gl.uniformMatrix4fv(this.renderSunMvpLoc, false, mat4_to_uniform(this.sunShadowDrawn.mvp));
+    }
+
+
+    // the fog covers everything past the render distance, since it isn't loaded
+    const fogEnd = this.renderDistance * CHUNK_X_SIZE;
+    this.gl.uniform3fv(this.renderEyeLoc, this.camera.getPos());
+    this.gl.uniform3fv(this.renderOffsetLoc, [0, 0, 0]);
+    this.gl.uniform3fv(this.renderFogColorLoc, fogColor);
+    this.gl.uniform1f(this.renderFogStartLoc, this.atmosphere.fogStart * fogEnd);
+    this.gl.uniform1f(this.renderFogEndLoc, fogEnd);
+    this.gl.uniform1f(this.renderFogDensityLoc, this.atmosphere.fogDensity);
 
     // bind the texture 0 to render atlas
     this.gl.activeTexture(this.gl.TEXTURE0);
@@ -864,13 +1692,37 @@ class World {
 
     // bind the texture 1 to shadow
     this.gl.activeTexture(this.gl.TEXTURE1);
-    this.gl.bindTexture(this.gl.TEXTURE_2D_ARRAY, this.shadowTexArr);
+    this.gl.bindTexture(this.gl.TEXTURE_2D_ARRAY, this.shadowAtlas.texture);
 
     // bind this light data to tex 2
     this.gl.activeTexture(this.gl.TEXTURE2);
     this.gl.bindTexture(this.gl.TEXTURE_2D_ARRAY, this.lightDataTexArr);
 
+    // bind the sun's shadow map to tex 4
+    this.gl.activeTexture(this.gl.TEXTURE4);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.sunShadow.texture);
+
+    // find the chunks that are in view
+    const planes = frustum_planes(mvpMat);
+    const reachable = this.findVisibleChunks(planes);
+    const stats: RenderStats = { drawn: 0, culled: 0, occluded: 0 };
+    const visible: Chunk[] = [];
     for (const chunk of this.chunk_map.values()) {
+      if (chunk.graphics === undefined) {
+        continue;
+      }
+      if (!aabb_in_frustum(chunk.aabb, planes)) {
+        stats.culled++;
+      } else if (!reachable.has(chunk)) {
+        stats.occluded++;
+      } else {
+        visible.push(chunk);
+        stats.drawn++;
+      }
+    }
+    this.renderStats = stats;
+
+    for (const chunk of visible) {
       if (chunk.graphics !== undefined && chunk.completeLighting !== undefined) {
         // bind this chunk's vertex array
         this.gl.bindVertexArray(chunk.graphics.solid.vao);
@@ -884,11 +1736,41 @@ class World {
       }
     }
 
-    // draw translucent
+    // blocks outside the grid are lit by the lights around the chunk they're in
+    for (const { graphics, pos, voxel } of this.entityBlocks.values()) {
+      if (pos === undefined || voxel === undefined) {
+        continue;
+      }
+      const lighting = this.chunk_map.get(JSON.stringify(this.getWorldChunkLoc(voxel)))?.completeLighting;
+      if (lighting !== undefined) {
+        this.gl.uniform3fv(this.renderOffsetLoc, pos);
+        this.gl.bindVertexArray(graphics.vao);
+        this.gl.activeTexture(this.gl.TEXTURE3);
+        this.gl.bindTexture(this.gl.TEXTURE_2D, lighting.data.lightIndexesTex);
+        this.gl.drawArrays(this.gl.TRIANGLES, 0, graphics.vertexCount);
+      }
+    }
+    this.gl.uniform3fv(this.renderOffsetLoc, [0, 0, 0]);
+
+    // draw translucent, farthest chunk first so that nearer glass blends over farther glass
+    const eye = this.camera.getPos();
+    const centerDistance = ({ min, max }: aabb) =>
+      vec3_length(vec3_sub(vec3_scale(vec3_add(min, max), 0.5), eye));
+    const transparentChunks = visible
+      .filter(chunk => chunk.graphics !== undefined && chunk.graphics.transparent.vertexCount > 0)
+      .sort((a, b) => centerDistance(b.aabb) - centerDistance(a.aabb));
+
     this.gl.depthMask(false);
-    for (const chunk of this.chunk_map.values()) {
-      if (chunk.graphics !== undefined) {
+    for (const chunk of transparentChunks) {
+      if (chunk.graphics !== undefined && chunk.completeLighting !== undefined) {
+        this.sortTransparentFaces(chunk.graphics, eye);
+
         this.gl.bindVertexArray(chunk.graphics.transparent.vao);
+
+        // bind light index to texture 3
+        this.gl.activeTexture(this.gl.TEXTURE3);
+        this.gl.bindTexture(this.gl.TEXTURE_2D, chunk.completeLighting.data.lightIndexesTex);
+
         this.gl.drawArrays(this.gl.TRIANGLES, 0, chunk.graphics.transparent.vertexCount);
       }
     }
@@ -901,6 +1783,63 @@ class World {
     }
   }
 
+  // Occlusion culling: flood fills outwards from the camera's chunk, only moving from one chunk into the next
+  // if the face we'd leave through can be seen from the face we came in through (see computeVisibility).
+  // We also never turn back towards the camera, so the search stays in line of sight.
+  // Returns the chunks that might be visible
+  private findVisibleChunks = (planes: plane[]) => {
+    const start = this.getWorldChunkLoc(this.camera.getPos());
+    const startChunk = this.chunk_map.get(JSON.stringify(start));
+    const reachable = new Set<Chunk>();
+    if (startChunk === undefined) {
+      return reachable;
+    }
+
+    // enteredFrom is the face of the chunk we came in through, and directions is a bitmask of the directions we've moved in
+    const queue: { coord: vec3, chunk: Chunk, enteredFrom?: Face, directions: number }[] = [
+      { coord: start, chunk: startChunk, directions: 0 },
+    ];
+    reachable.add(startChunk);
+    for (let i = 0; i < queue.length; i++) {
+      const { coord, chunk, enteredFrom, directions } = queue[i];
+      const visibility: ChunkVisibility = chunk.mesh?.visibility ?? FULL_VISIBILITY;
+      for (let face = 0; face < 6; face++) {
+        // Face and its opposite differ in the lowest bit
+        const opposite = face ^ 1;
+        if (directions & (1 << opposite)) {
+          continue;
+        }
+        if (enteredFrom !== undefined && !(visibility[enteredFrom] & (1 << face))) {
+          continue;
+        }
+        const nextCoord = vec3_add(coord, getNormal(face));
+        const next = this.chunk_map.get(JSON.stringify(nextCoord));
+        if (next === undefined || reachable.has(next) || !aabb_in_frustum(next.aabb, planes)) {
+          continue;
+        }
+        reachable.add(next);
+        queue.push({ coord: nextCoord, chunk: next, enteredFrom: opposite, directions: directions | (1 << face) });
+      }
+    }
+    return reachable;
+  }
+
+  // sort the faces within the chunk back to front, if the camera moved enough since the last time
+  private sortTransparentFaces = (graphics: NonNullable<Chunk["graphics"]>, eye: vec3) => {
+    if (
+      graphics.transparentSortedFrom !== undefined &&
+      vec3_length(vec3_sub(eye, graphics.transparentSortedFrom)) < TRANSPARENT_RESORT_DISTANCE
+    ) {
+      return;
+    }
+    graphics.transparentData = sortFacesBackToFront(graphics.transparentData, eye);
+    graphics.transparentSortedFrom = eye;
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, graphics.transparent.buffer);
+    this.gl.bufferSubData(this.gl.ARRAY_BUFFER, 0, graphics.transparentData);
+  }
+
+  getRenderStats = () => ({ ...this.renderStats });
+
   getBlock = (coords: vec3) => {
     const chunk = this.chunk_map.get(JSON.stringify(this.getWorldChunkLoc(coords)));
     if (chunk && chunk.blocks) {
@@ -914,11 +1853,31 @@ class World {
     }
   }
 
+  // true if the block can't be walked through. Blocks that aren't loaded count as air, and fluids can be swum through
+  isSolid = (coords: vec3) => {
+    const block = this.getBlock(coords);
+    return block !== null && this.blockManager.defs[block].pointable && this.blockManager.defs[block].fluid === undefined;
+  }
+
+  // how much of the block is filled with fluid, from 0 to 1. Fluid with more of the same fluid above it is full
+  fluidAt = (coords: vec3) => {
+    const block = this.getBlock(coords);
+    const fluid = block === null ? undefined : this.blockManager.defs[block].fluid;
+    if (fluid === undefined) {
+      return 0;
+    }
+    const above = this.getBlock(vec3_add(coords, [0, -1, 0]));
+    if (above !== null && this.blockManager.defs[above].fluid?.name === fluid.name) {
+      return 1;
+    }
+    return fluidHeight(fluid.level);
+  }
+
   setBlock = (coords: vec3, val: number) => {
     const setMeshStaleIfExists = (chunkLoc: vec3) => {
       const chunk = this.chunk_map.get(JSON.stringify(chunkLoc));
-      if (chunk && chunk.mesh) {
-        chunk.mesh.stale = true;
+      if (chunk) {
+        this.markMeshStale(chunk);
       }
     }
 
@@ -930,6 +1889,9 @@ class World {
       const z = Math.floor(mod(coords[2], CHUNK_Z_SIZE));
 
       chunk.blocks[chunkDataIndex(x, y, z)] = val;
+      chunk.dirty = true;
+      chunk.edits = (chunk.edits ?? 0) + 1;
+      this.markLightChanged(this.lighting.blockChanged(coords));
 
       // means we need to recompute the mesh of this and neighboring chunks (if affected)
       setMeshStaleIfExists(chunkCoord);
@@ -951,6 +1913,12 @@ class World {
       if (z === CHUNK_Z_SIZE - 1) {
         setMeshStaleIfExists(vec3_add(chunkCoord, [0, 0, +1]));
       }
+
+      for (const cell of blockAndNeighbors(coords)) {
+        for (const listener of this.blockUpdateListeners) {
+          listener(cell);
+        }
+      }
       return true;
     } else {
       return false;
@@ -974,7 +1942,8 @@ class World {
     return (ds > 0 ? ceils - s : s - Math.floor(s)) / Math.abs(ds);
   }
 
-  castRay = (origin: vec3, direction: vec3, max_dist: number): Highlight | null => {
+  // find the first pointable block along the ray. With ignoreFluids, the ray goes through fluids
+  castRay = (origin: vec3, direction: vec3, max_dist: number, options: { ignoreFluids?: boolean } = {}): Highlight | null => {
     // From "A Fast Voxel Traversal Algorithm for Ray Tracing"
     // by John Amanatides and Andrew Woo, 1987
     // <http://www.cse.yorku.ca/~amana/research/grid.pdf>
@@ -1030,7 +1999,8 @@ class World {
         break;
       }
 
-      if (this.blockManager.defs[blockIndex].pointable) {
+      const def = this.blockManager.defs[blockIndex];
+      if (def.pointable && !(options.ignoreFluids && def.fluid !== undefined)) {
         return {
           coords: [x, y, z],
           face
@@ -1081,280 +2051,6 @@ class World {
 
 }
 
-// get chunk data index
-function chunkDataIndex(x: number, y: number, z: number) {
-  return Math.floor(x) * CHUNK_Y_SIZE * CHUNK_Z_SIZE + Math.floor(y) * CHUNK_Z_SIZE + Math.floor(z);
-}
-
-
-// generate chunk data
-function genChunkData(worldChunkCoords: vec3, noise: (x: number, y: number, z: number) => number) {
-  // generate chunk, we need to give it the block coordinate to generate at
-  const chunkOffset = [
-    worldChunkCoords[0] * CHUNK_X_SIZE,
-    worldChunkCoords[1] * CHUNK_Y_SIZE,
-    worldChunkCoords[2] * CHUNK_Z_SIZE
-  ];
-
-  const blocks = new Uint16Array(CHUNK_X_SIZE * CHUNK_Y_SIZE * CHUNK_Z_SIZE);
-
-  const scale1 = 20.0;
-  for (let x = 0; x < CHUNK_X_SIZE; x++) {
-    for (let y = 0; y < CHUNK_Y_SIZE; y++) {
-      for (let z = 0; z < CHUNK_Z_SIZE; z++) {
-        // this is the offset within the blocks array to store the value
-        const off_xyz = chunkDataIndex(x, y, z);
-
-        // calculate world coordinates in blocks
-        const wx = x + chunkOffset[0];
-        const wy = y + chunkOffset[1];
-        const wz = z + chunkOffset[2];
-        const valHere = noise(wx / scale1, wy / scale1, wz / scale1);
-        const valAbove = noise(wx / scale1, (wy - 1) / scale1, wz / scale1);
-
-        if (valHere > 0.5) {
-          if (valAbove > 0.5) {
-            blocks[off_xyz] = 3; // stone
-          } else {
-            blocks[off_xyz] = 1; // grass
-          }
-        } else {
-          blocks[off_xyz] = 0; // air
-        }
-      }
-    }
-  }
-
-  blocks[0] = 5;
-
-  return blocks;
-}
-
-type ChunkMesh = {
-  solid: BlockFace[],
-  transparent: BlockFace[],
-  lights: BlockFace[]
-}
-
-function shouldRender(thisblock: BlockDef, otherblock: BlockDef) {
-  // dont render air
-  if (thisblock.textures === undefined) {
-    return false;
-  }
-  // dont render if both blocks are solid
-  if (!thisblock.transparent && !otherblock.transparent) {
-    return false;
-  }
-  // dont render if both blocks are the same type
-  if (thisblock == otherblock) {
-    return false;
-  }
-  return true;
-}
-
-type BlockFace = {
-  bi: number,
-  face: Face,
-  cubeLoc: vec3,
-}
-
-function createMesh(
-  offset: vec3,
-  bm: BlockManager,
-  blocks: Uint16Array,
-  leftBlocks: Uint16Array,
-  rightBlocks: Uint16Array,
-  upBlocks: Uint16Array,
-  downBlocks: Uint16Array,
-  backBlocks: Uint16Array,
-  frontBlocks: Uint16Array,
-): ChunkMesh {
-  const lights: BlockFace[] = [];
-  const solid: BlockFace[] = [];
-  const transparent: BlockFace[] = [];
-
-  for (let x = 0; x < CHUNK_X_SIZE; x++) {
-    for (let y = 0; y < CHUNK_Y_SIZE; y++) {
-      for (let z = 0; z < CHUNK_Z_SIZE; z++) {
-        const bi = blocks[chunkDataIndex(x, y, z)];
-        const cubeLoc = [offset[0] + x, offset[1] + y, offset[2] + z] as vec3;
-
-        // block definition of this block
-        const thisblock = bm.defs[bi];
-
-        // skip air
-        if (thisblock.textures === undefined) {
-          continue;
-        }
-
-        // the array to put the faces into depends on 
-        const dest = thisblock.transparent
-          ? transparent
-          : solid;
-
-        // left face
-        if (
-          x === 0
-            ? shouldRender(thisblock, bm.defs[leftBlocks[chunkDataIndex(CHUNK_X_SIZE - 1, y, z)]])
-            : shouldRender(thisblock, bm.defs[blocks[chunkDataIndex(x - 1, y, z)]])
-        ) {
-          const val = { bi, cubeLoc, face: Face.LEFT };
-          dest.push(val);
-          if (thisblock.light) {
-            lights.push(val);
-          }
-        }
-        // right face
-        if (
-          x === CHUNK_X_SIZE - 1
-            ? shouldRender(thisblock, bm.defs[rightBlocks[chunkDataIndex(0, y, z)]])
-            : shouldRender(thisblock, bm.defs[blocks[chunkDataIndex(x + 1, y, z)]])
-        ) {
-          const val = { bi, cubeLoc, face: Face.RIGHT };
-          dest.push(val);
-          if (thisblock.light) {
-            lights.push(val);
-          }
-        }
-        // upper face
-        if (
-          y === 0
-            ? shouldRender(thisblock, bm.defs[upBlocks[chunkDataIndex(x, CHUNK_Y_SIZE - 1, z)]])
-            : shouldRender(thisblock, bm.defs[blocks[chunkDataIndex(x, y - 1, z)]])
-        ) {
-          const val = { bi, cubeLoc, face: Face.UP };
-          dest.push(val);
-          if (thisblock.light) {
-            lights.push(val);
-          }
-        }
-        // lower face
-        if (
-          y === CHUNK_Y_SIZE - 1
-            ? shouldRender(thisblock, bm.defs[downBlocks[chunkDataIndex(x, 0, z)]])
-            : shouldRender(thisblock, bm.defs[blocks[chunkDataIndex(x, y + 1, z)]])
-        ) {
-          const val = { bi, cubeLoc, face: Face.DOWN };
-          dest.push(val);
-          if (thisblock.light) {
-            lights.push(val);
-          }
-        }
-        // back face
-        if (
-          z === 0
-            ? shouldRender(thisblock, bm.defs[backBlocks[chunkDataIndex(x, y, CHUNK_Z_SIZE - 1)]])
-            : shouldRender(thisblock, bm.defs[blocks[chunkDataIndex(x, y, z - 1)]])
-        ) {
-          const val = { bi, cubeLoc, face: Face.BACK };
-          dest.push(val);
-          if (thisblock.light) {
-            lights.push(val);
-          }
-        }
-        // front face
-        if (
-          z === CHUNK_Z_SIZE - 1
-            ? shouldRender(thisblock, bm.defs[frontBlocks[chunkDataIndex(x, y, 0)]])
-            : shouldRender(thisblock, bm.defs[blocks[chunkDataIndex(x, y, z + 1)]])
-        ) {
-          const val = { bi, cubeLoc, face: Face.FRONT };
-          dest.push(val);
-          if (thisblock.light) {
-            lights.push(val);
-          }
-        }
-      }
-    }
-  }
-  return { solid, transparent, lights };
-}
-
-function writeMesh(faces: BlockFace[]): Float32Array {
-  const data = new Float32Array(faces.length * 6 * 9);
-
-  let i = 0;
-  for (const { bi, face, cubeLoc: [fx, fy, fz] } of faces) {
-    // calculate vertexes
-    const v000: vec3 = [fx + 0, fy + 0, fz + 0];
-    const v100: vec3 = [fx + 1, fy + 0, fz + 0];
-    const v001: vec3 = [fx + 0, fy + 0, fz + 1];
-    const v101: vec3 = [fx + 1, fy + 0, fz + 1];
-    const v010: vec3 = [fx + 0, fy + 1, fz + 0];
-    const v110: vec3 = [fx + 1, fy + 1, fz + 0];
-    const v011: vec3 = [fx + 0, fy + 1, fz + 1];
-    const v111: vec3 = [fx + 1, fy + 1, fz + 1];
-
-    // the texture id to use
-    const v = bi * 6 + face;
-
-
-    const nLeft: vec3 = [-1, 0, 0];
-    const nRight: vec3 = [+1, 0, 0];
-    const nUp: vec3 = [0, -1, 0];
-    const nDown: vec3 = [0, +1, 0];
-    const nBack: vec3 = [0, 0, -1];
-    const nFront: vec3 = [0, 0, +1];
-
-    switch (face) {
-      case Face.LEFT: {
-        data.set(v000, i); i += 3; data.set(nLeft, i); i += 3; data.set([1, 0, v], i); i += 3;
-        data.set(v001, i); i += 3; data.set(nLeft, i); i += 3; data.set([0, 0, v], i); i += 3;
-        data.set(v010, i); i += 3; data.set(nLeft, i); i += 3; data.set([1, 1, v], i); i += 3;
-        data.set(v001, i); i += 3; data.set(nLeft, i); i += 3; data.set([0, 0, v], i); i += 3;
-        data.set(v011, i); i += 3; data.set(nLeft, i); i += 3; data.set([0, 1, v], i); i += 3;
-        data.set(v010, i); i += 3; data.set(nLeft, i); i += 3; data.set([1, 1, v], i); i += 3;
-        break;
-      }
-      case Face.RIGHT: {
-        data.set(v100, i); i += 3; data.set(nRight, i); i += 3; data.set([0, 0, v], i); i += 3;
-        data.set(v110, i); i += 3; data.set(nRight, i); i += 3; data.set([0, 1, v], i); i += 3;
-        data.set(v101, i); i += 3; data.set(nRight, i); i += 3; data.set([1, 0, v], i); i += 3;
-        data.set(v101, i); i += 3; data.set(nRight, i); i += 3; data.set([1, 0, v], i); i += 3;
-        data.set(v110, i); i += 3; data.set(nRight, i); i += 3; data.set([0, 1, v], i); i += 3;
-        data.set(v111, i); i += 3; data.set(nRight, i); i += 3; data.set([1, 1, v], i); i += 3;
-        break;
-      }
-      case Face.UP: {
-        data.set(v001, i); i += 3; data.set(nUp, i); i += 3; data.set([1, 1, v], i); i += 3;
-        data.set(v000, i); i += 3; data.set(nUp, i); i += 3; data.set([1, 0, v], i); i += 3;
-        data.set(v100, i); i += 3; data.set(nUp, i); i += 3; data.set([0, 0, v], i); i += 3;
-        data.set(v001, i); i += 3; data.set(nUp, i); i += 3; data.set([1, 1, v], i); i += 3;
-        data.set(v100, i); i += 3; data.set(nUp, i); i += 3; data.set([0, 0, v], i); i += 3;
-        data.set(v101, i); i += 3; data.set(nUp, i); i += 3; data.set([0, 1, v], i); i += 3;
-        break;
-      }
-      case Face.DOWN: {
-        data.set(v010, i); i += 3; data.set(nDown, i); i += 3; data.set([0, 0, v], i); i += 3;
-        data.set(v011, i); i += 3; data.set(nDown, i); i += 3; data.set([0, 1, v], i); i += 3;
-        data.set(v110, i); i += 3; data.set(nDown, i); i += 3; data.set([1, 0, v], i); i += 3;
-        data.set(v110, i); i += 3; data.set(nDown, i); i += 3; data.set([1, 0, v], i); i += 3;
-        data.set(v011, i); i += 3; data.set(nDown, i); i += 3; data.set([0, 1, v], i); i += 3;
-        data.set(v111, i); i += 3; data.set(nDown, i); i += 3; data.set([1, 1, v], i); i += 3;
-        break;
-      }
-      case Face.BACK: {
-        data.set(v000, i); i += 3; data.set(nBack, i); i += 3; data.set([0, 0, v], i); i += 3;
-        data.set(v010, i); i += 3; data.set(nBack, i); i += 3; data.set([0, 1, v], i); i += 3;
-        data.set(v100, i); i += 3; data.set(nBack, i); i += 3; data.set([1, 0, v], i); i += 3;
-        data.set(v100, i); i += 3; data.set(nBack, i); i += 3; data.set([1, 0, v], i); i += 3;
-        data.set(v010, i); i += 3; data.set(nBack, i); i += 3; data.set([0, 1, v], i); i += 3;
-        data.set(v110, i); i += 3; data.set(nBack, i); i += 3; data.set([1, 1, v], i); i += 3;
-        break;
-      }
-      case Face.FRONT: {
-        data.set(v011, i); i += 3; data.set(nFront, i); i += 3; data.set([1, 1, v], i); i += 3;
-        data.set(v001, i); i += 3; data.set(nFront, i); i += 3; data.set([1, 0, v], i); i += 3;
-        data.set(v101, i); i += 3; data.set(nFront, i); i += 3; data.set([0, 0, v], i); i += 3;
-        data.set(v011, i); i += 3; data.set(nFront, i); i += 3; data.set([1, 1, v], i); i += 3;
-        data.set(v101, i); i += 3; data.set(nFront, i); i += 3; data.set([0, 0, v], i); i += 3;
-        data.set(v111, i); i += 3; data.set(nFront, i); i += 3; data.set([0, 1, v], i); i += 3;
-        break;
-      }
-    }
-  }
-  return data;
-}
 
 function createGPUData(gl: WebGL2RenderingContext, nIndexes: number): ChunkLightingGPUData {
   const tex = gl.createTexture()!;